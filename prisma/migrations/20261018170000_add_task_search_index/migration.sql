@@ -0,0 +1,6 @@
+-- Full-text search over task titles and descriptions (admin getAllTasks `search`).
+-- The expression must match the one in the query exactly for the index to be used.
+
+-- CreateIndex
+CREATE INDEX "Task_search_idx" ON "Task"
+  USING GIN (to_tsvector('english', coalesce("title", '') || ' ' || coalesce("description", '')));
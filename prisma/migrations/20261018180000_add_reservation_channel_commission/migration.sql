@@ -0,0 +1,8 @@
+-- Channel commission per reservation, for the `net` revenue basis (totalPrice minus commission).
+-- NULL means no commission was charged (a direct booking).
+--
+-- schema.prisma, model WheelhouseReservation:
+--   channelCommission Decimal?
+
+-- AlterTable
+ALTER TABLE "WheelhouseReservation" ADD COLUMN "channelCommission" DECIMAL(65,30);
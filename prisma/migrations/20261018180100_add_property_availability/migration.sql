@@ -0,0 +1,73 @@
+-- Availability-aware capacity: each property's live window, and its blocked nights.
+--
+-- schema.prisma:
+--   model Property {
+--     activatedAt   DateTime?       // First sellable night; NULL = live since before records began
+--     deactivatedAt DateTime?       // First night no longer sellable; NULL = still live (or never recorded)
+--     blocks        PropertyBlock[]
+--   }
+--
+--   model PropertyBlock {
+--     id         String   @id @default(cuid())
+--     propertyId String
+--     property   Property @relation(fields: [propertyId], references: [id], onDelete: Cascade)
+--     startDate  DateTime
+--     endDate    DateTime // Exclusive, like a reservation checkout
+--     blockType  String   // owner | maintenance
+--     createdAt  DateTime @default(now())
+--     updatedAt  DateTime @updatedAt
+--
+--     @@index([propertyId, startDate, endDate])
+--   }
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "activatedAt" TIMESTAMP(3),
+ADD COLUMN "deactivatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PropertyBlock" (
+    "id" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "blockType" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PropertyBlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PropertyBlock_propertyId_startDate_endDate_idx" ON "PropertyBlock"("propertyId", "startDate", "endDate");
+
+-- AddForeignKey
+ALTER TABLE "PropertyBlock" ADD CONSTRAINT "PropertyBlock_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill activatedAt from each property's first stay. Left NULL (live throughout), every
+-- existing property would count as available in months before it joined, understating past
+-- occupancy and skewing STLY as the portfolio grows. `createdAt` isn't used: properties
+-- imported by the sync were created on import, long after they started taking guests.
+-- Properties without reservations stay NULL, matching how they were counted before.
+UPDATE "Property" AS p
+SET "activatedAt" = r."firstStay"
+FROM (
+  SELECT "propertyId", MIN("startDate") AS "firstStay"
+  FROM "WheelhouseReservation"
+  WHERE "status" NOT IN ('cancelled', 'declined')
+  GROUP BY "propertyId"
+) AS r
+WHERE r."propertyId" = p."id";
+
+-- Backfill deactivatedAt for inactive properties from their last checkout, so their history
+-- still counts towards past capacity. Inactive properties without reservations stay NULL and,
+-- as before, are left out of capacity entirely.
+UPDATE "Property" AS p
+SET "deactivatedAt" = r."lastCheckout"
+FROM (
+  SELECT "propertyId", MAX("endDate") AS "lastCheckout"
+  FROM "WheelhouseReservation"
+  WHERE "status" NOT IN ('cancelled', 'declined')
+  GROUP BY "propertyId"
+) AS r
+WHERE r."propertyId" = p."id"
+  AND p."isActive" = false;
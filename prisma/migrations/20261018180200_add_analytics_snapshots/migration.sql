@@ -0,0 +1,51 @@
+-- Nightly on-the-books snapshots per organization, stay month and revenue basis
+-- (see ~/server/api/utils/snapshots).
+--
+-- schema.prisma:
+--   model AnalyticsSnapshot {
+--     id                  String       @id @default(cuid())
+--     organizationId      String
+--     organization        Organization @relation(fields: [organizationId], references: [id], onDelete: Cascade)
+--     stayMonth           DateTime     // First day of the stay month
+--     snapshotDate        DateTime     // Start of the day the snapshot was taken
+--     revenueBasis        String       // room | gross | net
+--     occupancy           Float?
+--     adr                 Float?
+--     revpar              Float?
+--     roomNights          Int
+--     revenue             Float
+--     availableNights     Int
+--     ownerNights         Int
+--     missingRevenueCount Int
+--     createdAt           DateTime     @default(now())
+--
+--     // The default constraint name is longer than Postgres' 63-character limit
+--     @@unique([organizationId, stayMonth, snapshotDate, revenueBasis], map: "AnalyticsSnapshot_org_month_date_basis_key")
+--   }
+--   (plus `analyticsSnapshots AnalyticsSnapshot[]` on Organization)
+
+-- CreateTable
+CREATE TABLE "AnalyticsSnapshot" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "stayMonth" TIMESTAMP(3) NOT NULL,
+    "snapshotDate" TIMESTAMP(3) NOT NULL,
+    "revenueBasis" TEXT NOT NULL,
+    "occupancy" DOUBLE PRECISION,
+    "adr" DOUBLE PRECISION,
+    "revpar" DOUBLE PRECISION,
+    "roomNights" INTEGER NOT NULL,
+    "revenue" DOUBLE PRECISION NOT NULL,
+    "availableNights" INTEGER NOT NULL,
+    "ownerNights" INTEGER NOT NULL,
+    "missingRevenueCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AnalyticsSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnalyticsSnapshot_org_month_date_basis_key" ON "AnalyticsSnapshot"("organizationId", "stayMonth", "snapshotDate", "revenueBasis");
+
+-- AddForeignKey
+ALTER TABLE "AnalyticsSnapshot" ADD CONSTRAINT "AnalyticsSnapshot_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
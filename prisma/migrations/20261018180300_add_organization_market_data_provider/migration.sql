@@ -0,0 +1,8 @@
+-- Per-organization market data provider (see ~/server/api/utils/marketData).
+-- NULL uses the deployment default (`MARKET_DATA_PROVIDER`, else Key Data).
+--
+-- schema.prisma, model Organization:
+--   marketDataProvider String? // keydata | fixture
+
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "marketDataProvider" TEXT;
@@ -0,0 +1,22 @@
+-- Platform and organization roles (see ~/server/api/utils/authorization).
+--
+-- schema.prisma:
+--   model User {
+--     role String @default("USER") // USER | ADMIN
+--   }
+--   model UserOrganization {
+--     role String @default("viewer") // viewer | manager | owner
+--   }
+--
+-- Nobody becomes a platform admin here; grant ADMIN to the staff accounts that need the admin
+-- router with `UPDATE "User" SET "role" = 'ADMIN' WHERE "email" IN (...)`.
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'USER';
+
+-- AlterTable
+ALTER TABLE "UserOrganization" ADD COLUMN "role" TEXT NOT NULL DEFAULT 'viewer';
+
+-- New memberships start as viewers. Existing members could do everything before roles
+-- existed, so they become managers and keep that; owner is only ever granted explicitly.
+UPDATE "UserOrganization" SET "role" = 'manager';
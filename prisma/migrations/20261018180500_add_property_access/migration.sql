@@ -0,0 +1,45 @@
+-- Per-property access for organization members limited to some units
+-- (see ~/server/api/utils/authorization).
+--
+-- schema.prisma:
+--   model UserOrganization {
+--     propertyAccessRestricted Boolean @default(false) // Only the properties in userPropertyAccess
+--   }
+--
+--   model UserPropertyAccess {
+--     id         String   @id @default(cuid())
+--     userId     String
+--     user       User     @relation(fields: [userId], references: [id], onDelete: Cascade)
+--     propertyId String
+--     property   Property @relation(fields: [propertyId], references: [id], onDelete: Cascade)
+--     createdAt  DateTime @default(now())
+--
+--     @@unique([userId, propertyId])
+--     @@index([propertyId])
+--   }
+--   (plus `propertyAccess UserPropertyAccess[]` on User and Property)
+
+-- AlterTable
+ALTER TABLE "UserOrganization" ADD COLUMN "propertyAccessRestricted" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "UserPropertyAccess" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "propertyId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UserPropertyAccess_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserPropertyAccess_userId_propertyId_key" ON "UserPropertyAccess"("userId", "propertyId");
+
+-- CreateIndex
+CREATE INDEX "UserPropertyAccess_propertyId_idx" ON "UserPropertyAccess"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "UserPropertyAccess" ADD CONSTRAINT "UserPropertyAccess_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UserPropertyAccess" ADD CONSTRAINT "UserPropertyAccess_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
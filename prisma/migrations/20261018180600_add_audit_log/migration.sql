@@ -0,0 +1,53 @@
+-- Audit log of admin and organization procedure calls (see ~/server/api/utils/audit).
+--
+-- schema.prisma:
+--   model AuditLog {
+--     id                      String        @id @default(cuid())
+--     actorId                 String
+--     actor                   User          @relation(fields: [actorId], references: [id], onDelete: Cascade)
+--     organizationId          String?       // Set only for organizations that exist
+--     organization            Organization? @relation(fields: [organizationId], references: [id], onDelete: SetNull)
+--     requestedOrganizationId String?       // The id as given in the input; no foreign key
+--     procedure               String
+--     type                    String        // query | mutation
+--     input                   Json?
+--     success                 Boolean
+--     errorCode               String?
+--     createdAt               DateTime      @default(now())
+--
+--     @@index([createdAt])
+--     @@index([actorId, createdAt])
+--     @@index([requestedOrganizationId, createdAt])
+--   }
+--   (plus `auditLogs AuditLog[]` on User and Organization)
+
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "requestedOrganizationId" TEXT,
+    "procedure" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "input" JSONB,
+    "success" BOOLEAN NOT NULL,
+    "errorCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AuditLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actorId_createdAt_idx" ON "AuditLog"("actorId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_requestedOrganizationId_createdAt_idx" ON "AuditLog"("requestedOrganizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AuditLog" ADD CONSTRAINT "AuditLog_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+import { env } from "~/env";
+import { db } from "~/server/db";
+import { runNightlyJobs } from "~/server/jobs/nightly";
+
+// Snapshot capture covers every organization, which can take a few minutes
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+// Called by Vercel Cron (see vercel.json), which sends `Authorization: Bearer $CRON_SECRET`.
+// Without CRON_SECRET set every call is rejected.
+export async function GET(request: Request) {
+  if (!env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${env.CRON_SECRET}`) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  const results = await runNightlyJobs(db);
+  const ok = results.every((result) => result.ok);
+
+  return Response.json({ ok, results }, { status: ok ? 200 : 500 });
+}
@@ -0,0 +1,54 @@
+import { createEnv } from "@t3-oss/env-nextjs";
+import { z } from "zod";
+
+export const env = createEnv({
+  /**
+   * Specify your server-side environment variables schema here. This way you can ensure the app
+   * isn't built with invalid env vars.
+   */
+  server: {
+    DATABASE_URL: z.string().url(),
+    NODE_ENV: z
+      .enum(["development", "test", "production"])
+      .default("development"),
+    KEY_DATA_API_BASE_URL: z.string().url().optional(),
+    KEY_DATA_API_KEY: z.string().optional(),
+    // Default market data provider for organizations without their own (Key Data when unset)
+    MARKET_DATA_PROVIDER: z.enum(["keydata", "fixture"]).optional(),
+    // JSON fixture read by the `fixture` provider, for tests and offline development
+    MARKET_DATA_FIXTURE_PATH: z.string().optional(),
+    // Bearer token the nightly cron route requires (src/app/api/cron/nightly/route.ts)
+    CRON_SECRET: z.string().optional(),
+  },
+
+  /**
+   * Specify your client-side environment variables schema here. This way you can ensure the app
+   * isn't built with invalid env vars. To expose them to the client, prefix them with
+   * `NEXT_PUBLIC_`.
+   */
+  client: {},
+
+  /**
+   * You can't destruct `process.env` as a regular object in the Next.js edge runtimes (e.g.
+   * middlewares) or client-side so we need to destruct manually.
+   */
+  runtimeEnv: {
+    DATABASE_URL: process.env.DATABASE_URL,
+    NODE_ENV: process.env.NODE_ENV,
+    KEY_DATA_API_BASE_URL: process.env.KEY_DATA_API_BASE_URL,
+    KEY_DATA_API_KEY: process.env.KEY_DATA_API_KEY,
+    MARKET_DATA_PROVIDER: process.env.MARKET_DATA_PROVIDER,
+    MARKET_DATA_FIXTURE_PATH: process.env.MARKET_DATA_FIXTURE_PATH,
+    CRON_SECRET: process.env.CRON_SECRET,
+  },
+  /**
+   * Run `build` or `dev` with `SKIP_ENV_VALIDATION` to skip env validation. This is especially
+   * useful for Docker builds.
+   */
+  skipValidation: !!process.env.SKIP_ENV_VALIDATION,
+  /**
+   * Makes it so that empty strings are treated as undefined. `SOME_VAR: z.string()` and
+   * `SOME_VAR=""` will throw an error.
+   */
+  emptyStringAsUndefined: true,
+});
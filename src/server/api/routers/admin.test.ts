@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { createFakeDb, type FakeDbSeed } from '~/test/fakeDb';
+import { createTestCaller } from '~/test/caller';
+import { adminRouter } from './admin';
+
+type AdminCaller = ReturnType<typeof adminRouter.createCaller>;
+
+function seedUsers(seed: FakeDbSeed = {}) {
+  return createFakeDb({
+    ...seed,
+    user: [
+      { id: 'admin-user', role: 'ADMIN' },
+      { id: 'client-user', role: 'USER' },
+    ],
+    organization: [
+      { id: 'org-b', name: 'Beta Stays' },
+      { id: 'org-a', name: 'Alpha Homes' },
+    ],
+  });
+}
+
+describe('adminRouter', () => {
+  const procedures = [
+    ['getEveryTask', (caller: AdminCaller) => caller.getEveryTask()],
+    ['getOrganizationTaskSummary', (caller: AdminCaller) => caller.getOrganizationTaskSummary()],
+    ['getMyOpenTasks', (caller: AdminCaller) => caller.getMyOpenTasks()],
+    ['getAllTasks', (caller: AdminCaller) => caller.getAllTasks({})],
+    ['getAuditLog', (caller: AdminCaller) => caller.getAuditLog({})],
+    ['getAllOrganizations', (caller: AdminCaller) => caller.getAllOrganizations()],
+  ] as const;
+
+  it.each(procedures)('rejects %s for users without the platform admin role', async (_name, call) => {
+    const db = seedUsers();
+    const caller = createTestCaller(adminRouter, db, 'client-user');
+
+    await expect(call(caller)).rejects.toMatchObject({ code: 'FORBIDDEN' });
+
+    // Nothing past the role check ran
+    expect(db.task.findMany).not.toHaveBeenCalled();
+    expect(db.organization.findMany).not.toHaveBeenCalled();
+    expect(db.auditLog.findMany).not.toHaveBeenCalled();
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it('rejects users that no longer exist', async () => {
+    const caller = createTestCaller(adminRouter, seedUsers(), 'deleted-user');
+
+    await expect(caller.getAllOrganizations()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('audits denied calls', async () => {
+    const db = seedUsers();
+    const caller = createTestCaller(adminRouter, db, 'client-user');
+
+    await expect(caller.getAllOrganizations()).rejects.toThrow();
+
+    expect(db.auditLog.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        actorId: 'client-user',
+        procedure: 'getAllOrganizations',
+        success: false,
+        errorCode: 'FORBIDDEN',
+      }),
+    });
+  });
+
+  it('lets platform admins through', async () => {
+    const db = seedUsers();
+    const caller = createTestCaller(adminRouter, db, 'admin-user');
+
+    await expect(caller.getAllOrganizations()).resolves.toHaveLength(2);
+    expect(db.organization.findMany).toHaveBeenCalledOnce();
+  });
+
+  it('narrows task search to the ranked full-text matches', async () => {
+    const db = seedUsers({
+      task: [
+        { id: 'task-1', isDeleted: false, title: 'Fix the pool heater' },
+        { id: 'task-2', isDeleted: false, title: 'Restock towels' },
+      ],
+    });
+    db.$queryRaw.mockResolvedValueOnce([{ id: 'task-1' }]);
+    const caller = createTestCaller(adminRouter, db, 'admin-user');
+
+    const result = await caller.getAllTasks({ search: 'pool' });
+
+    expect(result.tasks.map(task => task.id)).toEqual(['task-1']);
+    expect(result.totalCount).toBe(1);
+    expect(db.$queryRaw).toHaveBeenCalledOnce();
+  });
+
+  it('accepts the page sizes callers sent before cursor paging', async () => {
+    const caller = createTestCaller(adminRouter, seedUsers(), 'admin-user');
+
+    await expect(caller.getAllTasks({ limit: 500 })).resolves.toMatchObject({ nextCursor: null });
+  });
+});
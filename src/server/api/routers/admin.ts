@@ -1,9 +1,22 @@
 import { z } from 'zod';
-import { createTRPCRouter, protectedProcedure } from '../trpc';
+import { Prisma, TaskPriority, TaskStatus } from '@prisma/client';
+import { createTRPCRouter } from '../trpc';
+import { adminProcedure } from '../utils/authorization';
 
+// Statuses that still need work (used for the overdue filter)
+const OPEN_TASK_STATUSES: TaskStatus[] = [TaskStatus.NOT_STARTED, TaskStatus.IN_PROGRESS];
+
+// Most full-text matches getAllTasks considers, best-ranked first. Keeps the id list passed
+// back into the Prisma query well under Postgres's bind parameter limit.
+const TASK_SEARCH_MATCH_LIMIT = 1000;
+
+// Sort orders for getAllTasks; "default" is priority, then due date, then newest
+const taskSortSchema = z.enum(['default', 'priority', 'dueDate', 'createdAt', 'updatedAt', 'title']);
+
+// Platform admin only: every procedure here reads across all organizations
 export const adminRouter = createTRPCRouter({
   // Ultra-simple raw SQL query - guaranteed to work
-  getEveryTask: protectedProcedure.query(async ({ ctx }) => {
+  getEveryTask: adminProcedure.query(async ({ ctx }) => {
     // Direct SQL query bypassing all Prisma ORM complexity
     const tasks = await ctx.db.$queryRaw`
       SELECT 
@@ -24,7 +37,7 @@ export const adminRouter = createTRPCRouter({
   }),
 
   // Organization task summary for admin monitoring
-  getOrganizationTaskSummary: protectedProcedure.query(async ({ ctx }) => {
+  getOrganizationTaskSummary: adminProcedure.query(async ({ ctx }) => {
     // Use type-safe Prisma Client query to eliminate enum mapping issues
     const organizationSummaries = await ctx.db.organization.findMany({
       select: {
@@ -87,7 +100,7 @@ export const adminRouter = createTRPCRouter({
   }),
 
   // Get all open tasks assigned to current admin user across all organizations
-  getMyOpenTasks: protectedProcedure.query(async ({ ctx }) => {
+  getMyOpenTasks: adminProcedure.query(async ({ ctx }) => {
     const userId = ctx.session.user.id;
     
     const tasks = await ctx.db.task.findMany({
@@ -152,27 +165,107 @@ export const adminRouter = createTRPCRouter({
     return tasks;
   }),
 
-  // Get all tasks in system with optional filtering
-  getAllTasks: protectedProcedure
+  // Get all tasks in system with optional filtering, sorting and cursor pagination
+  getAllTasks: adminProcedure
     .input(z.object({
       organizationId: z.string().optional(),
-      status: z.string().optional(),
-      limit: z.number().default(50),
-      offset: z.number().default(0)
+      status: z.nativeEnum(TaskStatus).optional(),
+      priority: z.nativeEnum(TaskPriority).optional(),
+      assigneeId: z.string().optional(),
+      propertyId: z.string().optional(),
+      buildingId: z.string().optional(),
+      dueAfter: z.date().optional(),
+      dueBefore: z.date().optional(),
+      overdueOnly: z.boolean().default(false), // Open tasks past their due date
+      search: z.string().trim().max(200).optional(), // Full-text search over title and description
+      sortBy: taskSortSchema.default('default'),
+      sortDirection: z.enum(['asc', 'desc']).default('desc'),
+      limit: z.number().default(50), // Uncapped, as before cursor paging; existing callers send larger pages
+      cursor: z.string().optional(), // Id of the last task on the previous page
+      offset: z.number().min(0).optional() // Deprecated: use cursor. Still honoured for older callers.
+    }).refine(input => input.cursor === undefined || input.offset === undefined, {
+      message: 'Use either cursor or offset, not both',
     }))
     .query(async ({ ctx, input }) => {
-      const where: any = {
-        isDeleted: false
-      };
+      const now = new Date();
+      const filters: Prisma.TaskWhereInput[] = [{ isDeleted: false }];
 
       if (input.organizationId) {
-        where.organizationId = input.organizationId;
+        filters.push({ organizationId: input.organizationId });
       }
 
       if (input.status) {
-        where.status = input.status;
+        filters.push({ status: input.status });
+      }
+
+      if (input.priority) {
+        filters.push({ priority: input.priority });
+      }
+
+      if (input.assigneeId) {
+        filters.push({ assignees: { some: { userId: input.assigneeId } } });
+      }
+
+      if (input.propertyId) {
+        filters.push({ properties: { some: { propertyId: input.propertyId } } });
+      }
+
+      if (input.buildingId) {
+        filters.push({ buildings: { some: { buildingId: input.buildingId } } });
       }
 
+      if (input.dueAfter || input.dueBefore) {
+        filters.push({
+          dueDate: {
+            ...(input.dueAfter ? { gte: input.dueAfter } : {}),
+            ...(input.dueBefore ? { lte: input.dueBefore } : {}),
+          },
+        });
+      }
+
+      if (input.overdueOnly) {
+        filters.push({
+          status: { in: OPEN_TASK_STATUSES },
+          dueDate: { lt: now },
+        });
+      }
+
+      // Postgres full-text search (web-search syntax: quoted phrases, "or", -excluded words),
+      // served by the "Task_search_idx" GIN index on the same expression. The deleted and
+      // organization filters are applied in the same query, and only the best-ranked
+      // TASK_SEARCH_MATCH_LIMIT matches are kept; the remaining filters then narrow those.
+      if (input.search) {
+        const matches = await ctx.db.$queryRaw<Array<{ id: string }>>`
+          SELECT id
+          FROM "Task"
+          WHERE "isDeleted" = false
+            ${input.organizationId ? Prisma.sql`AND "organizationId" = ${input.organizationId}` : Prisma.empty}
+            AND to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, ''))
+              @@ websearch_to_tsquery('english', ${input.search})
+          ORDER BY ts_rank(
+            to_tsvector('english', coalesce(title, '') || ' ' || coalesce(description, '')),
+            websearch_to_tsquery('english', ${input.search})
+          ) DESC
+          LIMIT ${TASK_SEARCH_MATCH_LIMIT}
+        `;
+        filters.push({ id: { in: matches.map(match => match.id) } });
+      }
+
+      const where: Prisma.TaskWhereInput = { AND: filters };
+
+      // Always finish with id so the order (and therefore the cursor) is stable
+      const direction = input.sortDirection;
+      const orderBy: Prisma.TaskOrderByWithRelationInput[] = input.sortBy === 'default'
+        ? [
+            { priority: 'desc' },
+            { dueDate: { sort: 'asc', nulls: 'last' } },
+            { createdAt: 'desc' },
+            { id: 'asc' }
+          ]
+        : input.sortBy === 'dueDate'
+          ? [{ dueDate: { sort: direction, nulls: 'last' } }, { id: 'asc' }]
+          : [{ [input.sortBy]: direction }, { id: 'asc' }];
+
       const tasks = await ctx.db.task.findMany({
         where,
         include: {
@@ -215,25 +308,88 @@ export const adminRouter = createTRPCRouter({
             },
           },
         },
-        orderBy: [
-          { priority: 'desc' },
-          { dueDate: 'asc' },
-          { createdAt: 'desc' }
-        ],
-        take: input.limit,
-        skip: input.offset
+        orderBy,
+        // Fetch one extra row to know whether there is another page
+        take: input.limit + 1,
+        ...(input.cursor
+          ? { cursor: { id: input.cursor }, skip: 1 }
+          : input.offset ? { skip: input.offset } : {})
       });
 
       const totalCount = await ctx.db.task.count({ where });
 
+      const hasMore = tasks.length > input.limit;
+      const page = hasMore ? tasks.slice(0, input.limit) : tasks;
+
+      return {
+        tasks: page,
+        nextCursor: hasMore ? page[page.length - 1]?.id ?? null : null,
+        totalCount
+      };
+    }),
+
+  // Query the audit log, newest first
+  getAuditLog: adminProcedure
+    .input(z.object({
+      actorId: z.string().optional(),
+      organizationId: z.string().optional(),
+      procedure: z.string().optional(), // Exact path or prefix, e.g. "analytics."
+      success: z.boolean().optional(),
+      startDate: z.date().optional(),
+      endDate: z.date().optional(),
+      limit: z.number().min(1).max(500).default(50),
+      offset: z.number().min(0).default(0)
+    }))
+    .query(async ({ ctx, input }) => {
+      const where = {
+        ...(input.actorId ? { actorId: input.actorId } : {}),
+        // Matches denied calls for ids that don't exist too
+        ...(input.organizationId ? { requestedOrganizationId: input.organizationId } : {}),
+        ...(input.procedure ? { procedure: { startsWith: input.procedure } } : {}),
+        ...(input.success !== undefined ? { success: input.success } : {}),
+        ...(input.startDate || input.endDate
+          ? {
+              createdAt: {
+                ...(input.startDate ? { gte: input.startDate } : {}),
+                ...(input.endDate ? { lte: input.endDate } : {}),
+              },
+            }
+          : {}),
+      };
+
+      const [entries, totalCount] = await Promise.all([
+        ctx.db.auditLog.findMany({
+          where,
+          include: {
+            actor: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+            organization: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: input.limit,
+          skip: input.offset
+        }),
+        ctx.db.auditLog.count({ where }),
+      ]);
+
       return {
-        tasks,
+        entries,
         totalCount
       };
     }),
 
   // Get all organizations for admin dropdown
-  getAllOrganizations: protectedProcedure.query(async ({ ctx }) => {
+  getAllOrganizations: adminProcedure.query(async ({ ctx }) => {
     const organizations = await ctx.db.organization.findMany({
       select: {
         id: true,
@@ -0,0 +1,184 @@
+import { addDays, min, startOfMonth, subDays, subMonths } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { createFakeDb, type FakeRow } from '~/test/fakeDb';
+import { createTestCaller } from '~/test/caller';
+import { analyticsRouter } from './analytics';
+
+function property(id: string, organizationId: string): FakeRow {
+  return {
+    id,
+    organizationId,
+    title: id,
+    isActive: true,
+    activatedAt: null,
+    deactivatedAt: null,
+    buildings: [],
+  };
+}
+
+function reservation(id: string, propertyId: string, startDate: Date, endDate: Date, bookedAt: Date, nightlySubtotal: number): FakeRow {
+  return {
+    id,
+    propertyId,
+    status: 'confirmed',
+    startDate,
+    endDate,
+    bookedAt,
+    totalPrice: nightlySubtotal,
+    nightlySubtotal,
+    channelCommission: 0,
+  };
+}
+
+// Two organizations with different portfolios and prices over March 2025:
+// - org-a: one property, 5 nights at 100
+// - org-b: two properties, 20 nights at 300, plus a March 2024 stay for STLY
+function seedTwoOrganizations() {
+  return createFakeDb({
+    organization: [
+      { id: 'org-a', name: 'Alpha Homes', marketId: null, marketDataProvider: null },
+      { id: 'org-b', name: 'Beta Stays', marketId: null, marketDataProvider: null },
+    ],
+    userOrganization: [
+      { userId: 'user-a', organizationId: 'org-a', role: 'owner' },
+      { userId: 'user-b', organizationId: 'org-b', role: 'owner' },
+    ],
+    property: [
+      property('prop-a1', 'org-a'),
+      property('prop-b1', 'org-b'),
+      property('prop-b2', 'org-b'),
+    ],
+    wheelhouseReservation: [
+      reservation('res-a1', 'prop-a1', new Date(2025, 2, 10), new Date(2025, 2, 15), new Date(2025, 0, 5), 500),
+      reservation('res-b1', 'prop-b1', new Date(2025, 2, 1), new Date(2025, 2, 11), new Date(2025, 0, 5), 3000),
+      reservation('res-b2', 'prop-b2', new Date(2025, 2, 1), new Date(2025, 2, 11), new Date(2025, 0, 5), 3000),
+      reservation('res-b3', 'prop-b1', new Date(2024, 2, 1), new Date(2024, 2, 5), new Date(2024, 0, 5), 1000),
+    ],
+  });
+}
+
+const MARCH_2025 = {
+  startDate: new Date(2025, 2, 1),
+  endDate: new Date(2025, 2, 31),
+};
+
+describe('getPropertyPerformance', () => {
+  it('returns only the calling organization\'s numbers', async () => {
+    const db = seedTwoOrganizations();
+
+    const [alpha] = await createTestCaller(analyticsRouter, db, 'user-a')
+      .getPropertyPerformance({ organizationId: 'org-a', ...MARCH_2025 });
+    const [beta] = await createTestCaller(analyticsRouter, db, 'user-b')
+      .getPropertyPerformance({ organizationId: 'org-b', ...MARCH_2025 });
+
+    expect(alpha?.MonthYear).toBe(new Date(2025, 2, 1).toISOString());
+    expect(alpha?.Current_ADR).toBe(100);
+    expect(alpha?.STLY_ADR).toBeNull();
+    expect(alpha?.CurrentUserOccupancy).toBeCloseTo((5 / 31) * 100);
+
+    expect(beta?.Current_ADR).toBe(300);
+    expect(beta?.STLY_ADR).toBe(250);
+    expect(beta?.CurrentUserOccupancy).toBeCloseTo((20 / 62) * 100);
+  });
+
+  it('only queries reservations for the organization\'s properties', async () => {
+    const db = seedTwoOrganizations();
+
+    await createTestCaller(analyticsRouter, db, 'user-a')
+      .getPropertyPerformance({ organizationId: 'org-a', ...MARCH_2025 });
+
+    expect(db.wheelhouseReservation.findMany).toHaveBeenCalledOnce();
+    expect(db.wheelhouseReservation.findMany.mock.calls[0]?.[0]).toMatchObject({
+      where: { propertyId: { in: ['prop-a1'] } },
+    });
+  });
+
+  it('returns nothing for another organization\'s property', async () => {
+    const caller = createTestCaller(analyticsRouter, seedTwoOrganizations(), 'user-a');
+
+    await expect(caller.getPropertyPerformance({ organizationId: 'org-a', propertyId: 'prop-b1', ...MARCH_2025 }))
+      .resolves.toEqual([]);
+  });
+
+  it('rejects callers outside the organization', async () => {
+    const caller = createTestCaller(analyticsRouter, seedTwoOrganizations(), 'user-a');
+
+    await expect(caller.getPropertyPerformance({ organizationId: 'org-b', ...MARCH_2025 }))
+      .rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+});
+
+// A portfolio the size of the largest organizations: 300 properties with a 5-night stay
+// every 8 days from 13 months back to 12 months ahead (about 28,000 reservations).
+// The query count guards against refetching per month; the time budget (generous, for
+// slow CI machines) against the in-memory slicing growing out of hand.
+const BENCHMARK_PROPERTY_COUNT = 300;
+const BENCHMARK_TIME_BUDGET_MS = 5000;
+const BENCHMARK_TEST_TIMEOUT_MS = 20000;
+
+function seedLargePortfolio() {
+  const today = new Date();
+  const firstStay = startOfMonth(subMonths(today, 13));
+  const lastStay = addDays(today, 365);
+
+  const properties: FakeRow[] = [];
+  const reservations: FakeRow[] = [];
+  for (let index = 0; index < BENCHMARK_PROPERTY_COUNT; index++) {
+    const propertyId = `prop-${index}`;
+    properties.push(property(propertyId, 'org-a'));
+
+    // Stagger each property's calendar so stays don't all line up
+    for (let startDate = addDays(firstStay, index % 8); startDate < lastStay; startDate = addDays(startDate, 8)) {
+      const bookedAt = min([subDays(startDate, 45), subDays(today, (index % 10) + 1)]);
+      reservations.push(reservation(`res-${reservations.length}`, propertyId, startDate, addDays(startDate, 5), bookedAt, 750));
+    }
+  }
+
+  return createFakeDb({
+    organization: [
+      { id: 'org-a', name: 'Alpha Homes', marketId: null, marketDataProvider: null },
+    ],
+    userOrganization: [
+      { userId: 'user-a', organizationId: 'org-a', role: 'owner' },
+    ],
+    property: properties,
+    wheelhouseReservation: reservations,
+  });
+}
+
+// Time a call, returning its result and duration
+async function timed<T>(call: () => Promise<T>): Promise<{ result: T; durationMs: number }> {
+  const start = performance.now();
+  const result = await call();
+  return { result, durationMs: performance.now() - start };
+}
+
+describe('portfolio response times', () => {
+  it('builds the monthly outlook from one reservation query', async () => {
+    const db = seedLargePortfolio();
+    const caller = createTestCaller(analyticsRouter, db, 'user-a');
+
+    const { result, durationMs } = await timed(() =>
+      caller.getPortfolioMonthlyOutlook({ organizationId: 'org-a', groupBy: 'property' })
+    );
+
+    expect(result).toHaveLength(12);
+    expect(result[0]?.groups).toHaveLength(BENCHMARK_PROPERTY_COUNT);
+    expect(db.wheelhouseReservation.findMany).toHaveBeenCalledOnce();
+    expect(durationMs).toBeLessThan(BENCHMARK_TIME_BUDGET_MS);
+  }, BENCHMARK_TEST_TIMEOUT_MS);
+
+  it('builds weekly pacing from one reservation query', async () => {
+    const db = seedLargePortfolio();
+    const caller = createTestCaller(analyticsRouter, db, 'user-a');
+
+    const { result, durationMs } = await timed(() =>
+      caller.getWeeklyPacing({ organizationId: 'org-a', pickupWindows: [{ days: 7 }, { days: 30 }] })
+    );
+
+    expect(result).toHaveLength(12);
+    expect(result[0]?.pickups).toHaveLength(2);
+    expect(db.wheelhouseReservation.findMany).toHaveBeenCalledOnce();
+    expect(durationMs).toBeLessThan(BENCHMARK_TIME_BUDGET_MS);
+  }, BENCHMARK_TEST_TIMEOUT_MS);
+});
@@ -1,22 +1,51 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 import { z } from "zod";
-import { createTRPCRouter, protectedProcedure } from "~/server/api/trpc";
+import { TRPCError } from "@trpc/server";
+import { createTRPCRouter } from "~/server/api/trpc";
 import { db as prismaClient } from "~/server/db";
-import { startOfMonth, endOfMonth, subMonths, subDays, format, isAfter, isBefore, differenceInDays, subYears, addMonths } from 'date-fns';
+import { startOfMonth, endOfMonth, subMonths, subDays, format, isAfter, isBefore, differenceInDays, subYears, addMonths, startOfDay, eachDayOfInterval, getDaysInMonth } from 'date-fns';
 import { validatePropertyOwnership } from '~/server/api/utils/security';
-import axios from 'axios';
-import { env } from '~/env';
 import { Decimal } from '@prisma/client/runtime/library';
-
-// Market data API client setup
-const keyDataApiClient = axios.create({
-  baseURL: env.KEY_DATA_API_BASE_URL || 'https://api.keydata.com',
-  headers: {
-    'Authorization': `Bearer ${env.KEY_DATA_API_KEY || ''}`,
-    'Content-Type': 'application/json'
-  },
-  timeout: 30000,
-});
+import { forecastMonth, scoreForecast, summarizeBacktest, type PickupObservation } from '~/server/api/utils/forecast';
+import {
+  calculateDelta,
+  calculateMonthMetrics,
+  calculatePercentageChange,
+  expandReservationNights,
+  filterBookedBy,
+  getBookingActivity,
+  calculateMonthsWithStly,
+  getMonthReservations,
+  getReservationRevenue,
+  overlapsPeriod,
+  liveDuringRange,
+  loadPortfolioCapacity,
+  calculatePeriodCapacity,
+  classifyPortfolioGrowth,
+  revenueBasisSchema,
+  type MetricsReservation,
+  type PeriodMetrics,
+  type PortfolioCapacity,
+  type RevenueBasis,
+} from '~/server/api/utils/metrics';
+import { withCache } from '~/server/api/utils/cache';
+import { fetchKeyData, KeyDataError } from '~/server/api/utils/keyData';
+import { getMarketDataProvider } from '~/server/api/utils/marketData';
+import {
+  accessiblePropertyFilter,
+  assertFullPropertyAccess,
+  assertPropertyAccess,
+  orgManagerProcedure,
+  orgProcedure,
+} from '~/server/api/utils/authorization';
+import {
+  captureOrganizationSnapshot,
+  getSnapshotsAsOf,
+  SNAPSHOT_MONTHS_AHEAD,
+  type SnapshotMetrics,
+} from '~/server/api/utils/snapshots';
+
+// How long computed portfolio metrics are cached (see ~/server/api/utils/cache)
+const PORTFOLIO_CACHE_TTL_SECONDS = 15 * 60;
 
 // Type definitions for Key Data API responses
 interface KeyDataPropertyPerformance {
@@ -68,6 +97,42 @@ const keyDataMarketOverviewSchema = z.object({
   bookedListings: z.number(),
 });
 
+// Response schema for comp set property performance data
+const keyDataPropertyPerformanceSchema = z.object({
+  property_name: z.string(),
+  date: z.string(),
+  adr: z.number(),
+  occupancy: z.number(),
+  revPar: z.number(),
+  revenue: z.number(),
+  roomNights: z.number(),
+});
+
+// Amenity filters used to narrow a Key Data comp set
+const amenitiesFilterSchema = z.object({
+  balcony: z.boolean().optional(),
+  pool: z.boolean().optional(),
+  hotTub: z.boolean().optional(),
+  petFriendly: z.boolean().optional(),
+  beachfront: z.boolean().optional(),
+  skiInSkiOut: z.boolean().optional(),
+  evCharger: z.boolean().optional(),
+});
+
+// Schema for organization-scoped property performance
+const propertyPerformanceSchema = z.object({
+  MonthYear: z.string(), // ISO string format
+  Current_ADR: z.number().nullable(),
+  STLY_ADR: z.number().nullable(),
+  CurrentUserOccupancy: z.number().nullable(),
+  CurrentUserSTLYOccupancy: z.number().nullable(),
+  MissingRevenueCount: z.number(), // Current-period reservations lacking the chosen revenue field
+});
+
+// Why market columns may be missing: ok, unavailable (no market or the request failed),
+// partial (some months have no market data) or stale (served from an expired cache entry)
+const marketDataStatusSchema = z.enum(['ok', 'unavailable', 'partial', 'stale']);
+
 // Comprehensive output schema including all metrics (ADR, Occupancy, RevPAR)
 const comprehensiveAnalyticsOutputSchema = z.object({
   MonthYear: z.string(), // ISO string format
@@ -80,6 +145,26 @@ const comprehensiveAnalyticsOutputSchema = z.object({
   Market_ADR_Current: z.number().nullable(),
   MarketOccupancyCurrent: z.number().nullable(),
   MarketRevPARCurrent: z.number().nullable(),
+  // Market for the same month last year, to compare against our STLY
+  Market_ADR_STLY: z.number().nullable(),
+  MarketOccupancySTLY: z.number().nullable(),
+  MarketRevPARSTLY: z.number().nullable(),
+  // Market penetration indices (ours / market * 100): MPI = occupancy, ARI = ADR, RGI = RevPAR.
+  // Change is in index points vs STLY.
+  MPI_Current: z.number().nullable(),
+  MPI_STLY: z.number().nullable(),
+  MPI_Change: z.number().nullable(),
+  ARI_Current: z.number().nullable(),
+  ARI_STLY: z.number().nullable(),
+  ARI_Change: z.number().nullable(),
+  RGI_Current: z.number().nullable(),
+  RGI_STLY: z.number().nullable(),
+  RGI_Change: z.number().nullable(),
+  MarketDataStatus: marketDataStatusSchema,
+  MarketDataMessage: z.string().nullable(), // Explains a non-ok status for the UI
+  CurrentOwnerNights: z.number(), // Owner-stay nights, excluded from available nights
+  STLYOwnerNights: z.number(),
+  MissingRevenueCount: z.number(), // Current-period reservations lacking the chosen revenue field
 });
 
 // Schema for portfolio monthly outlook
@@ -101,9 +186,38 @@ const portfolioMonthlyOutlookSchema = z.object({
     occupancy: portfolioMonthlyOutlookMetricSchema,
     revpar: portfolioMonthlyOutlookMetricSchema,
   }),
+  // Per-property or per-building breakdown, only present when groupBy is set
+  groups: z.array(z.object({
+    groupId: z.string(),
+    groupName: z.string(),
+    propertyCount: z.number(),
+    metrics: z.object({
+      adr: portfolioMonthlyOutlookMetricSchema,
+      occupancy: portfolioMonthlyOutlookMetricSchema,
+      revpar: portfolioMonthlyOutlookMetricSchema,
+    }),
+  })).optional(),
+  // Owner-stay nights, excluded from available nights
+  ownerNights: z.object({
+    current: z.number(),
+    stly: z.number(),
+  }),
+  // Portfolio growth vs STLY: same-store units, units added and units lost
+  growth: z.object({
+    sameStoreUnits: z.number(),
+    newUnits: z.number(),
+    churnedUnits: z.number(),
+    // Percentage change vs STLY over same-store units only
+    sameStoreChange: z.object({
+      adr: z.number().nullable(),
+      occupancy: z.number().nullable(),
+      revpar: z.number().nullable(),
+    }),
+  }),
+  missingRevenueCount: z.number(), // Current-period reservations lacking the chosen revenue field
 });
 
-// Schema for weekly pacing (WoW pickup only)
+// Schema for weekly pacing (WoW pickup plus configurable pickup windows)
 const weeklyPacingSchema = z.object({
   month: z.string(), // ISO date string
   monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
@@ -112,147 +226,448 @@ const weeklyPacingSchema = z.object({
     occupancy: z.number().nullable(),
     revpar: z.number().nullable(),
   }),
+  pickups: z.array(z.object({
+    window: z.string(), // e.g. "7d" or "since 2025-06-01"
+    asOf: z.string(), // ISO date string of the baseline on-the-books position
+    baselineSource: z.enum(['snapshot', 'bookings']), // Where the baseline came from
+    adr: z.number().nullable(),
+    occupancy: z.number().nullable(),
+    revpar: z.number().nullable(),
+    roomNights: z.number(),
+    revenue: z.number(),
+  })),
+  missingRevenueCount: z.number(), // Current-period reservations lacking the chosen revenue field
 });
 
-// Key Data API response types
-interface KeyDataMarketBreakdownItem {
-  date: string;
-  adr: number;
-  occupancy: number;
-  revPar: number;
-  revenue?: number;
-  roomNights?: number;
-}
+// Pickup window: a lookback in days, or everything picked up since a given date
+const pickupWindowSchema = z.union([
+  z.object({ days: z.number().int().min(1).max(365) }),
+  z.object({ since: z.date() }),
+]);
 
-interface KeyDataMarketBreakdownResponse {
-  marketId: string;
-  breakdown: KeyDataMarketBreakdownItem[];
-}
+// Schema for booking curve (on-the-books position at each day before arrival)
+const bookingCurveMetricsSchema = z.object({
+  occupancy: z.number().nullable(),
+  adr: z.number().nullable(),
+  revenue: z.number(),
+  roomNights: z.number(),
+});
+
+const bookingCurveSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  points: z.array(z.object({
+    daysBeforeArrival: z.number(),
+    asOf: z.string(), // ISO date string
+    current: bookingCurveMetricsSchema.nullable(), // null when the point is still in the future
+    stly: bookingCurveMetricsSchema,
+  })),
+  missingRevenueCount: z.number(), // Current reservations lacking the chosen revenue field
+});
+
+// Schema for month-end forecasts (on-the-books + expected pickup)
+const forecastBandSchema = z.object({
+  forecast: z.number().nullable(),
+  low: z.number().nullable(), // Null with under two years of history: no band to show
+  high: z.number().nullable(),
+});
+
+const monthlyForecastSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  leadDays: z.number(), // Days from today to the start of the month (negative once the month has started)
+  historyYears: z.number(), // Prior years that contributed pickup history
+  onTheBooks: z.object({
+    occupancy: z.number().nullable(),
+    adr: z.number().nullable(),
+    revpar: z.number().nullable(),
+    roomNights: z.number(),
+    revenue: z.number(),
+  }),
+  forecast: z.object({
+    occupancy: forecastBandSchema,
+    adr: forecastBandSchema,
+    revpar: forecastBandSchema,
+    roomNights: z.number(),
+    revenue: z.number(),
+  }),
+  missingRevenueCount: z.number(), // On-the-books reservations lacking the chosen revenue field
+});
+
+const forecastBacktestSchema = z.object({
+  months: z.array(z.object({
+    month: z.string(), // ISO date string
+    monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+    asOf: z.string(), // ISO date string the forecast would have been made on
+    forecast: z.object({
+      occupancy: forecastBandSchema,
+      adr: forecastBandSchema,
+      revpar: forecastBandSchema,
+    }),
+    actual: z.object({
+      occupancy: z.number().nullable(),
+      adr: z.number().nullable(),
+      revpar: z.number().nullable(),
+    }),
+    error: z.object({
+      occupancy: z.number().nullable(),
+      adr: z.number().nullable(),
+      revpar: z.number().nullable(),
+      revparPercentage: z.number().nullable(),
+    }),
+    withinBand: z.object({
+      occupancy: z.boolean().nullable(),
+      revpar: z.boolean().nullable(),
+    }),
+    missingRevenueCount: z.number(), // Reservations lacking the chosen revenue field
+  })),
+  summary: z.object({
+    monthsScored: z.number(),
+    meanAbsoluteOccupancyError: z.number().nullable(),
+    meanAbsoluteAdrError: z.number().nullable(),
+    revparMape: z.number().nullable(),
+    occupancyBandHitRate: z.number().nullable(),
+    revparBandHitRate: z.number().nullable(),
+  }),
+});
+
+// Schema for cancellation analytics (per stay month and per booking month)
+const cancellationStatsSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  bookings: z.number(), // Reservations excluding declined requests
+  cancellations: z.number(),
+  declined: z.number(),
+  cancellationRate: z.number().nullable(), // cancellations / bookings * 100
+  averageCancelledLeadTime: z.number().nullable(), // Days between booking and arrival for cancelled bookings
+  grossRoomNights: z.number(),
+  roomNightsLost: z.number(),
+  netRoomNights: z.number(),
+  grossRevenue: z.number(),
+  revenueLost: z.number(),
+  netRevenue: z.number(),
+  missingRevenueCount: z.number(), // Reservations lacking the chosen revenue field
+});
+
+const cancellationAnalyticsSchema = z.object({
+  byStayMonth: z.array(cancellationStatsSchema),
+  byBookingMonth: z.array(cancellationStatsSchema),
+});
+
+// Schema for lead-time and length-of-stay distributions
+const distributionStatsSchema = z.object({
+  reservations: z.number(),
+  roomNights: z.number(),
+  revenue: z.number(),
+  adr: z.number().nullable(),
+  revenueShare: z.number().nullable(), // Percentage of the month's revenue
+});
+
+const distributionBucketSchema = z.object({
+  bucket: z.string(), // e.g. "8-14 days" or "4-6 nights"
+  current: distributionStatsSchema,
+  stly: distributionStatsSchema,
+});
+
+const stayDistributionSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  leadTime: z.array(distributionBucketSchema),
+  lengthOfStay: z.array(distributionBucketSchema),
+  missingRevenueCount: z.number(), // Current reservations lacking the chosen revenue field
+});
+
+// Booking lead time buckets (days between booking and arrival)
+const LEAD_TIME_BUCKETS = [
+  { label: '0-1 days', min: 0, max: 1 },
+  { label: '2-7 days', min: 2, max: 7 },
+  { label: '8-14 days', min: 8, max: 14 },
+  { label: '15-30 days', min: 15, max: 30 },
+  { label: '31-60 days', min: 31, max: 60 },
+  { label: '61-90 days', min: 61, max: 90 },
+  { label: '91-180 days', min: 91, max: 180 },
+  { label: '181+ days', min: 181, max: null },
+];
+
+// Length of stay buckets (nights)
+const LENGTH_OF_STAY_BUCKETS = [
+  { label: '1 night', min: 1, max: 1 },
+  { label: '2 nights', min: 2, max: 2 },
+  { label: '3 nights', min: 3, max: 3 },
+  { label: '4-6 nights', min: 4, max: 6 },
+  { label: '7-13 nights', min: 7, max: 13 },
+  { label: '14-27 nights', min: 14, max: 27 },
+  { label: '28+ nights', min: 28, max: null },
+];
+
+// Schema for daily-grain performance (calendar heatmap) and day-of-week rollup
+const dailyMetricsSchema = z.object({
+  occupiedUnits: z.number(),
+  pricedUnits: z.number(), // Occupied units with revenue under the chosen basis
+  availableUnits: z.number(), // Live, unblocked units
+  ownerUnits: z.number(), // Units held by owner stays, excluded from available units
+  occupancy: z.number().nullable(),
+  adr: z.number().nullable(),
+  revpar: z.number().nullable(),
+  revenue: z.number(),
+});
+
+const dailyPerformanceSchema = z.object({
+  days: z.array(dailyMetricsSchema.extend({
+    date: z.string(), // yyyy-MM-dd
+    dayOfWeek: z.string(), // e.g. "Monday"
+    // Same weekday last year (364 days earlier)
+    stly: dailyMetricsSchema.extend({
+      date: z.string(),
+    }),
+  })),
+  dayOfWeek: z.array(dailyMetricsSchema.extend({
+    dayOfWeek: z.string(),
+    stly: dailyMetricsSchema,
+  })),
+  missingRevenueCount: z.number(), // Reservations in range lacking the chosen revenue field
+});
+
+// Schema for the SQL function vs metrics engine consistency report
+const metricsConsistencyReportSchema = z.object({
+  tolerancePercentage: z.number(),
+  monthsChecked: z.number(),
+  mismatches: z.array(z.object({
+    month: z.string(), // ISO date string
+    metric: z.string(), // e.g. "Current_ADR"
+    sqlValue: z.number().nullable(),
+    engineValue: z.number().nullable(),
+    difference: z.number().nullable(),
+    differencePercentage: z.number().nullable(),
+  })),
+});
+
+// Schema for on-the-books metrics as stored by the nightly snapshot
+const analyticsAsOfSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  snapshotDate: z.string().nullable(), // ISO date string; null when no snapshot is that old
+  occupancy: z.number().nullable(),
+  adr: z.number().nullable(),
+  revpar: z.number().nullable(),
+  roomNights: z.number().nullable(),
+  revenue: z.number().nullable(),
+  ownerNights: z.number().nullable(),
+  missingRevenueCount: z.number().nullable(),
+});
+
+// Schema for market overview (supply/demand per period)
+const marketOverviewSchema = z.object({
+  date: z.string(), // ISO date string
+  listings: z.number(),
+  bookedListings: z.number(),
+  availableListings: z.number(),
+  adr: z.number(),
+  medianAdr: z.number(),
+  occupancy: z.number(),
+  revpar: z.number(),
+});
+
+// Schema for property vs comp set benchmarking
+const benchmarkMetricsSchema = z.object({
+  adr: z.number().nullable(),
+  occupancy: z.number().nullable(),
+  revpar: z.number().nullable(),
+});
+
+const propertyBenchmarkSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  property: benchmarkMetricsSchema,
+  compSet: benchmarkMetricsSchema.extend({
+    listings: z.number(),
+  }),
+  // Index = property / comp set * 100 (100 = performing in line with peers)
+  index: benchmarkMetricsSchema,
+  missingRevenueCount: z.number(), // Property reservations lacking the chosen revenue field
+});
+
+// Market penetration indices (ours / market * 100)
+const marketIndexSchema = z.object({
+  mpi: z.number().nullable(), // Occupancy index
+  ari: z.number().nullable(), // Average rate index
+  rgi: z.number().nullable(), // Revenue generation (RevPAR) index
+});
+
+// Schema for ranking properties by RGI for a month
+const propertyRgiRankingSchema = z.object({
+  month: z.string(), // ISO date string
+  monthDisplay: z.string(), // Formatted display string (e.g., "June 2025")
+  market: benchmarkMetricsSchema,
+  marketStly: benchmarkMetricsSchema,
+  marketDataStatus: marketDataStatusSchema,
+  marketDataMessage: z.string().nullable(),
+  // Highest RGI first; properties without an RGI come last, unranked
+  properties: z.array(z.object({
+    propertyId: z.string(),
+    propertyName: z.string(),
+    rank: z.number().nullable(),
+    current: benchmarkMetricsSchema,
+    stly: benchmarkMetricsSchema,
+    index: marketIndexSchema,
+    stlyIndex: marketIndexSchema,
+    rgiChange: z.number().nullable(), // Index points vs STLY
+    missingRevenueCount: z.number(),
+  })),
+});
 
 export const analyticsRouter = createTRPCRouter({
-  // Procedure for fetching property performance data (ADR, Occupancy)
-  getPropertyPerformance: protectedProcedure
+  // Procedure for fetching property performance data (ADR, Occupancy), scoped to the
+  // organization and optionally to one property and a date range.
+  // (Replaces "PropertyPerformanceOutlook_View", which had no organization filter.)
+  getPropertyPerformance: orgProcedure
     .input(z.object({
-      organizationId: z.string(),
+      propertyId: z.string().optional(),
+      startDate: z.date().optional(), // Defaults to 12 months ago
+      endDate: z.date().optional(), // Defaults to 11 months ahead
+      revenueBasis: revenueBasisSchema,
     }))
+    .output(z.array(propertyPerformanceSchema))
     .query(async ({ ctx, input }) => {
-      const { organizationId } = input;
-      const userId = ctx.session.user.id;
+      const { organizationId, propertyId, revenueBasis } = input;
+      const today = new Date();
+      const startDate = input.startDate ?? subMonths(today, 12);
+      const endDate = input.endDate ?? addMonths(today, 11);
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      if (propertyId) {
+        assertPropertyAccess(ctx.accessiblePropertyIds, propertyId);
+      }
 
-      // Verify user has access to this organization
-      const userOrg = await ctx.db.userOrganization.findFirst({
-        where: { 
-          userId,
+      // Build the list of months covered by the requested range
+      const months: Date[] = [];
+      for (let monthStart = startOfMonth(startDate); !isAfter(monthStart, endDate); monthStart = addMonths(monthStart, 1)) {
+        months.push(monthStart);
+      }
+
+      if (months.length > 36) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Performance range cannot exceed 36 months' });
+      }
+
+      const rangeStart = subYears(months[0], 1);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Only this organization's properties (the ones the user can see) are ever loaded,
+      // so reservations from other organizations can't reach the metrics
+      const properties = await ctx.db.property.findMany({
+        where: {
           organizationId,
+          ...liveDuringRange(rangeStart, rangeEnd),
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds, propertyId ? [propertyId] : undefined),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
         },
       });
-      
-      if (!userOrg) {
-        throw new Error("Organization not found or access denied");
-      }
-
-      // Execute the SQL view query
-      const rawData = await ctx.db.$queryRaw<Array<{
-        MonthYear: Date;
-        Current_ADR: Decimal | null;
-        STLY_ADR: Decimal | null;
-        CurrentUserOccupancy: Decimal | null;
-        CurrentUserSTLYOccupancy: Decimal | null;
-      }>>`
-        SELECT 
-          "MonthYear", 
-          "Current_ADR", 
-          "STLY_ADR",
-          "CurrentUserOccupancy",
-          "CurrentUserSTLYOccupancy"
-        FROM "PropertyPerformanceOutlook_View"
-        ORDER BY "MonthYear" ASC
-      `;
-
-      // Transform the data to ensure proper number conversion
-      const performanceData = rawData.map(row => ({
-        MonthYear: row.MonthYear.toISOString(),
-        Current_ADR: row.Current_ADR === null ? null : Number(row.Current_ADR),
-        STLY_ADR: row.STLY_ADR === null ? null : Number(row.STLY_ADR),
-        CurrentUserOccupancy: row.CurrentUserOccupancy === null ? null : Number(row.CurrentUserOccupancy),
-        CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy === null ? null : Number(row.CurrentUserSTLYOccupancy),
-      }));
+
+      if (properties.length === 0) {
+        return [];
+      }
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, rangeStart, rangeEnd);
+
+      const monthlyMetrics = await calculateMonthsWithStly(ctx.db, capacity, months, today, revenueBasis);
+
+      const performanceData = monthlyMetrics.map(({ monthStart, current, stly }) => {
+        return {
+          MonthYear: monthStart.toISOString(),
+          Current_ADR: current.adr,
+          STLY_ADR: stly.adr,
+          CurrentUserOccupancy: current.occupancy,
+          CurrentUserSTLYOccupancy: stly.occupancy,
+          MissingRevenueCount: current.missingRevenueCount,
+        };
+      });
 
       return performanceData;
     }),
 
   // Comprehensive procedure that includes ADR, Occupancy, and RevPAR data
-  getComprehensiveAnalytics: protectedProcedure
+  getComprehensiveAnalytics: orgProcedure
     .input(z.object({
-      organizationId: z.string(),
+      revenueBasis: revenueBasisSchema,
     }))
     .output(z.array(comprehensiveAnalyticsOutputSchema))
     .query(async ({ ctx, input }) => {
-      const { organizationId } = input;
-      const userId = ctx.session.user.id;
+      const { organizationId, revenueBasis } = input;
 
       // Debug: Log the request
       console.log('[Comprehensive Analytics] Starting request for organization:', organizationId);
 
-      // Verify user has access to this organization
-      const userOrg = await ctx.db.userOrganization.findFirst({
-        where: { 
-          userId,
-          organizationId,
-        },
+      // Last 12 months through the next 11, computed by the shared metrics engine
+      const today = new Date();
+      const months: Date[] = [];
+      for (let i = -12; i < 12; i++) {
+        months.push(startOfMonth(addMonths(today, i)));
+      }
+      const rangeStart = subYears(months[0], 1);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Portfolio metrics are cached per data version (invalidated when reservations sync in)
+      const portfolioRows = await withCache({
+        organizationId,
+        procedure: 'getComprehensiveAnalytics',
+        // Users limited to some properties get their own entries
+        params: { revenueBasis, asOf: format(today, 'yyyy-MM-dd'), propertyIds: ctx.accessiblePropertyIds },
+        ttlSeconds: PORTFOLIO_CACHE_TTL_SECONDS,
+      }, async () => {
+        // Get properties live at any point in the range (STLY included)
+        const properties = await ctx.db.property.findMany({
+          where: {
+            organizationId,
+            ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+            ...liveDuringRange(rangeStart, rangeEnd),
+          },
+          select: {
+            id: true,
+            activatedAt: true,
+            deactivatedAt: true,
+          },
+        });
+
+        if (properties.length === 0) {
+          return [];
+        }
+
+        const capacity = await loadPortfolioCapacity(ctx.db, properties, rangeStart, rangeEnd);
+
+        const monthlyMetrics = await calculateMonthsWithStly(ctx.db, capacity, months, today, revenueBasis);
+
+        return monthlyMetrics.map(({ monthStart, current, stly }) => {
+          return {
+            MonthYear: monthStart.toISOString(),
+            Current_ADR: current.adr,
+            STLY_ADR: stly.adr,
+            CurrentUserOccupancy: current.occupancy,
+            CurrentUserSTLYOccupancy: stly.occupancy,
+            CurrentUserRevPAR: current.revpar,
+            CurrentUserSTLYRevPAR: stly.revpar,
+            CurrentOwnerNights: current.ownerNights,
+            STLYOwnerNights: stly.ownerNights,
+            MissingRevenueCount: current.missingRevenueCount,
+          };
+        });
       });
-      
-      if (!userOrg) {
-        throw new Error("Organization not found or access denied");
-      }
-
-      // Execute the SQL view query
-      // This now includes RevPAR fields
-      const rawData = await ctx.db.$queryRaw<Array<{
-        MonthYear: Date;
-        Current_ADR: any; // Decimal object or null
-        STLY_ADR: any; // Decimal object or null
-        CurrentUserOccupancy: any; // Decimal object or null
-        CurrentUserSTLYOccupancy: any; // Decimal object or null
-        CurrentUserRevPAR: any; // Decimal object or null
-        CurrentUserSTLYRevPAR: any; // Decimal object or null
-      }>>`
-        SELECT 
-          "MonthYear", 
-          "Current_ADR", 
-          "STLY_ADR",
-          "CurrentUserOccupancy",
-          "CurrentUserSTLYOccupancy",
-          "CurrentUserRevPAR",
-          "CurrentUserSTLYRevPAR"
-        FROM get_adr_occupancy_metrics(${organizationId}::text)
-        ORDER BY "MonthYear" ASC
-      `;
-
-      // Debug: Log raw data from database
-      console.log('[Comprehensive Analytics] Raw data count:', rawData.length);
-      console.log('[Comprehensive Analytics] First 3 months from DB:', 
-        rawData.slice(0, 3).map(d => ({ 
-          month: format(d.MonthYear, 'yyyy-MM'), 
-          adr: d.Current_ADR,
-          occupancy: d.CurrentUserOccupancy,
-          revpar: d.CurrentUserRevPAR 
-        }))
-      );
 
-      // Transform the data to ensure proper number conversion
-      const outlookData = rawData.map(row => ({
-        MonthYear: row.MonthYear,
-        Current_ADR: row.Current_ADR === null ? null : Number(row.Current_ADR),
-        STLY_ADR: row.STLY_ADR === null ? null : Number(row.STLY_ADR),
-        CurrentUserOccupancy: row.CurrentUserOccupancy === null ? null : Number(row.CurrentUserOccupancy),
-        CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy === null ? null : Number(row.CurrentUserSTLYOccupancy),
-        CurrentUserRevPAR: row.CurrentUserRevPAR === null ? null : Number(row.CurrentUserRevPAR),
-        CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR === null ? null : Number(row.CurrentUserSTLYRevPAR),
-      }));
+      if (portfolioRows.length === 0) {
+        return [];
+      }
 
-      // Debug: Log transformed data before market fetch
-      console.log('[Comprehensive Analytics] Transformed data for first 3 months:', 
+      // Cached rows hold ISO strings (they may have round-tripped through JSON)
+      const outlookData = portfolioRows.map(row => ({ ...row, MonthYear: new Date(row.MonthYear) }));
+
+      // Debug: Log computed data before market fetch
+      console.log('[Comprehensive Analytics] Computed data for first 3 months:', 
         outlookData.slice(0, 3).map(d => ({ 
           month: format(d.MonthYear, 'yyyy-MM'), 
           userRevPAR: d.CurrentUserRevPAR 
@@ -260,75 +675,36 @@ export const analyticsRouter = createTRPCRouter({
       );
 
       try {
-        // Fetch organization to get marketId
-        const organization = await ctx.db.organization.findUnique({
-          where: { id: organizationId },
-          select: { marketId: true },
-        });
+        // orgProcedure has already loaded the organization's marketId and market data vendor
+        const { organization } = ctx;
 
-        if (organization?.marketId) {
+        if (organization.marketId) {
           console.log('[Comprehensive Analytics] Fetching market data for marketId:', organization.marketId);
           
           try {
-            // Fetch market data from Key Data API
-            const marketDataResponse = await keyDataApiClient.get<KeyDataMarketBreakdownResponse>(
-              `/v2/markets/${organization.marketId}/performance/breakdown`,
-              {
-                params: {
-                  start_date: format(outlookData[0].MonthYear, 'yyyy-MM-dd'),
-                  end_date: format(outlookData[outlookData.length - 1].MonthYear, 'yyyy-MM-dd'),
-                  aggregation: 'monthly',
-                },
-              }
+            // Fetch monthly market data (ADR, Occupancy, and RevPAR) from the organization's provider
+            const provider = getMarketDataProvider(organization.marketDataProvider);
+            // Start a year early so every month also has the market's STLY
+            const { months: marketMonths, stale } = await provider.getMonthlyPerformance(
+              organization.marketId,
+              subYears(outlookData[0].MonthYear, 1),
+              outlookData[outlookData.length - 1].MonthYear
             );
 
-            // Process market data (ADR, Occupancy, and RevPAR)
-            const marketDataMap = new Map<string, {
-              adr: number[];
-              occupancy: number[];
-              revpar: number[];
-            }>();
-
-            // Initialize map for all months
-            for (const data of outlookData) {
-              const monthKey = format(data.MonthYear, 'yyyy-MM');
-              marketDataMap.set(monthKey, {
-                adr: [],
-                occupancy: [],
-                revpar: [],
-              });
-            }
-
-            // Collect RevPAR data - using standard revPar field
-            if (marketDataResponse.data?.breakdown) {
-              for (const item of marketDataResponse.data.breakdown) {
-                const monthKey = format(new Date(item.date), 'yyyy-MM');
-                const monthData = marketDataMap.get(monthKey);
-                if (monthData) {
-                  monthData.adr.push(item.adr);
-                  monthData.occupancy.push(item.occupancy);
-                  monthData.revpar.push(item.revPar);
-                }
-              }
-            }
-
-            // Log decision about RevPAR field choice
-            console.log('[Comprehensive Analytics] RevPAR Field Selection: Using "revPar" field from Key Data API');
+            console.log(`[Comprehensive Analytics] ${provider.name} returned market data for ${marketMonths.length} months`);
 
-            // Calculate averages for each month
             const marketAverages = new Map<string, {
               adr: number | null;
               occupancy: number | null;
               revpar: number | null;
             }>();
 
-            for (const [monthKey, data] of marketDataMap.entries()) {
-              marketAverages.set(monthKey, {
-                adr: data.adr.length > 0 ? data.adr.reduce((sum, val) => sum + val, 0) / data.adr.length : null,
-                occupancy: data.occupancy.length > 0 ? data.occupancy.reduce((sum, val) => sum + val, 0) / data.occupancy.length : null,
-                revpar: data.revpar.length > 0 ? data.revpar.reduce((sum, val) => sum + val, 0) / data.revpar.length : null,
+            for (const marketMonth of marketMonths) {
+              marketAverages.set(marketMonth.month, {
+                adr: marketMonth.adr,
+                occupancy: marketMonth.occupancy,
+                revpar: marketMonth.revpar,
               });
-              console.log(`[Comprehensive Analytics] ${monthKey}: ADR values: ${data.adr.length}, Occ values: ${data.occupancy.length}, RevPAR values: ${data.revpar.length}`);
             }
 
             // Map market data to results
@@ -344,20 +720,49 @@ export const analyticsRouter = createTRPCRouter({
               filteredMarketData.set(monthKey, marketData);
             }
 
+            // Tell the UI why market columns may be empty
+            const monthsWithMarketData = Array.from(filteredMarketData.values()).filter(data => data.revpar !== null).length;
+            const marketDataStatus = stale
+              ? 'stale' as const
+              : monthsWithMarketData < outlookData.length ? 'partial' as const : 'ok' as const;
+            const marketDataMessage = marketDataStatus === 'stale'
+              ? 'Market data is temporarily served from an earlier fetch'
+              : marketDataStatus === 'partial'
+                ? `Market data is available for ${monthsWithMarketData} of ${outlookData.length} months`
+                : null;
+
             const resultsWithMarket = outlookData.map(row => {
               const monthKey = format(row.MonthYear, 'yyyy-MM');
               const marketData = filteredMarketData.get(monthKey) || { adr: null, occupancy: null, revpar: null };
+              const stlyMarketData = marketAverages.get(format(subYears(row.MonthYear, 1), 'yyyy-MM')) || { adr: null, occupancy: null, revpar: null };
+              const indices = calculateMarketIndices(
+                { adr: row.Current_ADR, occupancy: row.CurrentUserOccupancy, revpar: row.CurrentUserRevPAR },
+                marketData
+              );
+              const stlyIndices = calculateMarketIndices(
+                { adr: row.STLY_ADR, occupancy: row.CurrentUserSTLYOccupancy, revpar: row.CurrentUserSTLYRevPAR },
+                stlyMarketData
+              );
               return {
+                ...row,
                 MonthYear: row.MonthYear.toISOString(),
-                Current_ADR: row.Current_ADR,
-                STLY_ADR: row.STLY_ADR,
-                CurrentUserOccupancy: row.CurrentUserOccupancy,
-                CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy,
-                CurrentUserRevPAR: row.CurrentUserRevPAR,
-                CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR,
                 Market_ADR_Current: marketData.adr,
                 MarketOccupancyCurrent: marketData.occupancy,
                 MarketRevPARCurrent: marketData.revpar,
+                Market_ADR_STLY: stlyMarketData.adr,
+                MarketOccupancySTLY: stlyMarketData.occupancy,
+                MarketRevPARSTLY: stlyMarketData.revpar,
+                MPI_Current: indices.mpi,
+                MPI_STLY: stlyIndices.mpi,
+                MPI_Change: calculateDelta(indices.mpi, stlyIndices.mpi),
+                ARI_Current: indices.ari,
+                ARI_STLY: stlyIndices.ari,
+                ARI_Change: calculateDelta(indices.ari, stlyIndices.ari),
+                RGI_Current: indices.rgi,
+                RGI_STLY: stlyIndices.rgi,
+                RGI_Change: calculateDelta(indices.rgi, stlyIndices.rgi),
+                MarketDataStatus: marketDataStatus,
+                MarketDataMessage: marketDataMessage,
               };
             });
 
@@ -373,86 +778,71 @@ export const analyticsRouter = createTRPCRouter({
             return resultsWithMarket;
           } catch (marketError) {
             console.error('[Comprehensive Analytics] Error fetching market data:', marketError);
+            const marketDataMessage = marketError instanceof KeyDataError
+              ? describeKeyDataFailure(marketError)
+              : 'Market data could not be loaded';
             // Return data without market info
-            return outlookData.map(row => ({
-              MonthYear: row.MonthYear.toISOString(),
-              Current_ADR: row.Current_ADR,
-              STLY_ADR: row.STLY_ADR,
-              CurrentUserOccupancy: row.CurrentUserOccupancy,
-              CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy,
-              CurrentUserRevPAR: row.CurrentUserRevPAR,
-              CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR,
-              Market_ADR_Current: null,
-              MarketOccupancyCurrent: null,
-              MarketRevPARCurrent: null,
-            }));
+            return outlookData.map(row => withoutMarketData(row, 'unavailable', marketDataMessage));
           }
         } else {
           console.log('[Comprehensive Analytics] No marketId found for organization');
           // Return data without market info
-          return outlookData.map(row => ({
-            MonthYear: row.MonthYear.toISOString(),
-            Current_ADR: row.Current_ADR,
-            STLY_ADR: row.STLY_ADR,
-            CurrentUserOccupancy: row.CurrentUserOccupancy,
-            CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy,
-            CurrentUserRevPAR: row.CurrentUserRevPAR,
-            CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR,
-            Market_ADR_Current: null,
-            MarketOccupancyCurrent: null,
-            MarketRevPARCurrent: null,
-          }));
+          return outlookData.map(row => withoutMarketData(row, 'unavailable', 'No market is configured for this organization'));
         }
       } catch (error) {
         console.error('[Comprehensive Analytics] Unexpected error:', error);
         // Return data without market info
-        return outlookData.map(row => ({
-          MonthYear: row.MonthYear.toISOString(),
-          Current_ADR: row.Current_ADR,
-          STLY_ADR: row.STLY_ADR,
-          CurrentUserOccupancy: row.CurrentUserOccupancy,
-          CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy,
-          CurrentUserRevPAR: row.CurrentUserRevPAR,
-          CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR,
-          Market_ADR_Current: null,
-          MarketOccupancyCurrent: null,
-          MarketRevPARCurrent: null,
-        }));
+        return outlookData.map(row => withoutMarketData(row, 'unavailable', 'Market data could not be loaded'));
       }
     }),
 
   // Get portfolio monthly outlook with current projections vs STLY actuals
-  getPortfolioMonthlyOutlook: protectedProcedure
+  getPortfolioMonthlyOutlook: orgProcedure
     .input(z.object({
-      organizationId: z.string(),
+      propertyIds: z.array(z.string()).optional(),
+      buildingId: z.string().optional(),
+      groupBy: z.enum(['property', 'building']).optional(),
+      // Limit both periods to properties live throughout the month and the STLY month
+      sameStore: z.boolean().default(false),
+      revenueBasis: revenueBasisSchema,
     }))
     .output(z.array(portfolioMonthlyOutlookSchema))
     .query(async ({ ctx, input }) => {
-      const { organizationId } = input;
-      const userId = ctx.session.user.id;
+      const { organizationId, propertyIds: propertyIdFilter, buildingId, groupBy, sameStore, revenueBasis } = input;
       const today = new Date();
       const sevenDaysAgo = subDays(today, 7);
 
-      // Verify user has access to this organization
-      const userOrg = await ctx.db.userOrganization.findFirst({
-        where: { 
-          userId,
-          organizationId,
-        },
-      });
-      
-      if (!userOrg) {
-        throw new Error("Organization not found or access denied");
+      // Get next 12 months starting from current month
+      const months: Date[] = [];
+      for (let i = 0; i < 12; i++) {
+        months.push(startOfMonth(addMonths(today, i)));
       }
+      const rangeStart = subYears(months[0], 1);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
 
-      // Get active properties
+      // Get properties live at any point in the range (STLY included), narrowed to the requested properties/building
       const properties = await ctx.db.property.findMany({
         where: {
           organizationId,
-          isActive: true,
+          ...liveDuringRange(rangeStart, rangeEnd),
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds, propertyIdFilter),
+          ...(buildingId ? { buildings: { some: { buildingId } } } : {}),
         },
         select: {
           id: true,
+          title: true,
+          activatedAt: true,
+          deactivatedAt: true,
+          buildings: {
+            select: {
+              building: {
+                select: {
+                  id: true,
+                  name: true,
+                },
+              },
+            },
+          },
         },
       });
 
@@ -463,200 +853,164 @@ export const analyticsRouter = createTRPCRouter({
         return [];
       }
 
-      // Get next 12 months starting from current month
-      const months: Date[] = [];
-      for (let i = 0; i < 12; i++) {
-        months.push(startOfMonth(addMonths(today, i)));
+      const capacity = await loadPortfolioCapacity(ctx.db, activeProperties, rangeStart, rangeEnd);
+
+      // Build the property groups for the breakdown (a property can sit in several buildings)
+      const groups = new Map<string, { groupName: string; propertyIds: Set<string> }>();
+      if (groupBy === 'property') {
+        for (const property of activeProperties) {
+          groups.set(property.id, { groupName: property.title, propertyIds: new Set([property.id]) });
+        }
+      } else if (groupBy === 'building') {
+        for (const property of activeProperties) {
+          for (const { building } of property.buildings) {
+            // When filtering by building, only break down that building
+            if (buildingId && building.id !== buildingId) continue;
+            const group = groups.get(building.id) ?? { groupName: building.name, propertyIds: new Set<string>() };
+            group.propertyIds.add(property.id);
+            groups.set(building.id, group);
+          }
+        }
       }
 
+      // Fetch the whole window (STLY months through the last outlook month) once;
+      // every month and baseline below is a slice of it
+      const windowReservations = await getMonthReservations(ctx.db, propertyIds, rangeStart, rangeEnd);
+      const bookedNow = filterBookedBy(windowReservations, today);
+      const bookedWeekAgo = filterBookedBy(windowReservations, sevenDaysAgo);
+      const bookedStly = filterBookedBy(windowReservations, subYears(today, 1));
+
       // Process each month
-      const monthlyData = await Promise.all(months.map(async (monthStart) => {
+      const monthlyData = months.map((monthStart) => {
         const monthEnd = endOfMonth(monthStart);
         const monthDisplay = format(monthStart, 'MMMM yyyy');
         const stlyMonthStart = subYears(monthStart, 1);
         const stlyMonthEnd = endOfMonth(stlyMonthStart);
 
-        // Get current projections
-        const currentReservations = await ctx.db.wheelhouseReservation.findMany({
-          where: {
-            propertyId: { in: propertyIds },
-            bookedAt: { lte: today },
-            status: { notIn: ['cancelled', 'declined'] },
-            OR: [
-              {
-                startDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                endDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                startDate: { lt: monthStart },
-                endDate: { gt: monthEnd }
-              }
-            ]
-          },
-          select: {
-            startDate: true,
-            endDate: true,
-            totalPrice: true,
-            nightlySubtotal: true,
-          }
-        });
+        // Current projections, projections from 7 days ago, and STLY actuals
+        // (reservations from last year, booked by this time last year)
+        const currentReservations = bookedNow.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+        const weekAgoReservations = bookedWeekAgo.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+        const stlyReservations = bookedStly.filter(reservation => overlapsPeriod(reservation, stlyMonthStart, stlyMonthEnd));
+
+        // Same-store set: properties live throughout both this month and the STLY month
+        const growth = classifyPortfolioGrowth(
+          capacity,
+          { start: monthStart, end: monthEnd },
+          { start: stlyMonthStart, end: stlyMonthEnd }
+        );
+        const sameStoreIds = new Set(growth.sameStorePropertyIds);
+
+        // Calculate metrics for each dataset over a set of properties
+        // (narrowed to the same-store set in sameStore mode)
+        const measure = (scope: Set<string>) => {
+          const scopeIds = Array.from(scope).filter(id => !sameStore || sameStoreIds.has(id));
+          const scopeIdSet = new Set(scopeIds);
+          const inScope = (reservation: { propertyId: string }) => scopeIdSet.has(reservation.propertyId);
+          const monthCapacity = calculatePeriodCapacity(capacity, monthStart, monthEnd, scopeIds);
+          const stlyCapacity = calculatePeriodCapacity(capacity, stlyMonthStart, stlyMonthEnd, scopeIds);
+
+          return {
+            propertyCount: scopeIds.length,
+            current: calculateMonthMetrics(currentReservations.filter(inScope), monthStart, monthEnd, monthCapacity, revenueBasis),
+            weekAgo: calculateMonthMetrics(weekAgoReservations.filter(inScope), monthStart, monthEnd, monthCapacity, revenueBasis),
+            stly: calculateMonthMetrics(stlyReservations.filter(inScope), stlyMonthStart, stlyMonthEnd, stlyCapacity, revenueBasis),
+          };
+        };
 
-        // Get projections from 7 days ago
-        const weekAgoReservations = await ctx.db.wheelhouseReservation.findMany({
-          where: {
-            propertyId: { in: propertyIds },
-            bookedAt: { lte: sevenDaysAgo },
-            status: { notIn: ['cancelled', 'declined'] },
-            OR: [
-              {
-                startDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                endDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                startDate: { lt: monthStart },
-                endDate: { gt: monthEnd }
-              }
-            ]
-          },
-          select: {
-            startDate: true,
-            endDate: true,
-            totalPrice: true,
-            nightlySubtotal: true,
-          }
-        });
+        const portfolio = measure(new Set(propertyIds));
+        const sameStorePortfolio = sameStore ? portfolio : measure(sameStoreIds);
 
-        // Get STLY actuals (reservations from last year, booked by this time last year)
-        const stlyReservations = await ctx.db.wheelhouseReservation.findMany({
-          where: {
-            propertyId: { in: propertyIds },
-            bookedAt: { lte: subYears(today, 1) },
-            status: { notIn: ['cancelled', 'declined'] },
-            OR: [
-              {
-                startDate: { gte: stlyMonthStart, lte: stlyMonthEnd }
-              },
-              {
-                endDate: { gte: stlyMonthStart, lte: stlyMonthEnd }
-              },
-              {
-                startDate: { lt: stlyMonthStart },
-                endDate: { gt: stlyMonthEnd }
-              }
-            ]
-          },
-          select: {
-            startDate: true,
-            endDate: true,
-            totalPrice: true,
-            nightlySubtotal: true,
-          }
-        });
+        // Calculate the same metrics for each group in the breakdown
+        const groupData = groupBy
+          ? Array.from(groups.entries()).map(([groupId, group]) => {
+              const groupMetrics = measure(group.propertyIds);
 
-        // Calculate metrics for each dataset
-        const currentMetrics = calculateMonthMetrics(currentReservations, monthStart, monthEnd, activeProperties.length);
-        const weekAgoMetrics = calculateMonthMetrics(weekAgoReservations, monthStart, monthEnd, activeProperties.length);
-        const stlyMetrics = calculateMonthMetrics(stlyReservations, stlyMonthStart, stlyMonthEnd, activeProperties.length);
-
-        // Calculate variances
-        const adrVariance = currentMetrics.adr !== null && stlyMetrics.adr !== null 
-          ? currentMetrics.adr - stlyMetrics.adr 
-          : null;
-        const adrVariancePercentage = calculatePercentageChange(currentMetrics.adr, stlyMetrics.adr);
-        const adrWowPickup = currentMetrics.adr !== null && weekAgoMetrics.adr !== null 
-          ? currentMetrics.adr - weekAgoMetrics.adr 
-          : null;
-
-        const occupancyVariance = currentMetrics.occupancy !== null && stlyMetrics.occupancy !== null 
-          ? currentMetrics.occupancy - stlyMetrics.occupancy 
-          : null;
-        const occupancyVariancePercentage = calculatePercentageChange(currentMetrics.occupancy, stlyMetrics.occupancy);
-        const occupancyWowPickup = currentMetrics.occupancy !== null && weekAgoMetrics.occupancy !== null 
-          ? currentMetrics.occupancy - weekAgoMetrics.occupancy 
-          : null;
-
-        const revparVariance = currentMetrics.revpar !== null && stlyMetrics.revpar !== null 
-          ? currentMetrics.revpar - stlyMetrics.revpar 
-          : null;
-        const revparVariancePercentage = calculatePercentageChange(currentMetrics.revpar, stlyMetrics.revpar);
-        const revparWowPickup = currentMetrics.revpar !== null && weekAgoMetrics.revpar !== null 
-          ? currentMetrics.revpar - weekAgoMetrics.revpar 
-          : null;
+              return {
+                groupId,
+                groupName: group.groupName,
+                propertyCount: groupMetrics.propertyCount,
+                metrics: buildOutlookMetrics(groupMetrics.current, groupMetrics.weekAgo, groupMetrics.stly),
+              };
+            })
+          : undefined;
 
         return {
           month: monthStart.toISOString(),
           monthDisplay,
-          metrics: {
-            adr: {
-              currentProjection: currentMetrics.adr,
-              stlyActual: stlyMetrics.adr,
-              varianceVsStly: {
-                absolute: adrVariance,
-                percentage: adrVariancePercentage,
-              },
-              wowPickup: adrWowPickup,
-            },
-            occupancy: {
-              currentProjection: currentMetrics.occupancy,
-              stlyActual: stlyMetrics.occupancy,
-              varianceVsStly: {
-                absolute: occupancyVariance,
-                percentage: occupancyVariancePercentage,
-              },
-              wowPickup: occupancyWowPickup,
-            },
-            revpar: {
-              currentProjection: currentMetrics.revpar,
-              stlyActual: stlyMetrics.revpar,
-              varianceVsStly: {
-                absolute: revparVariance,
-                percentage: revparVariancePercentage,
-              },
-              wowPickup: revparWowPickup,
+          metrics: buildOutlookMetrics(portfolio.current, portfolio.weekAgo, portfolio.stly),
+          groups: groupData,
+          ownerNights: {
+            current: portfolio.current.ownerNights,
+            stly: portfolio.stly.ownerNights,
+          },
+          growth: {
+            sameStoreUnits: growth.sameStorePropertyIds.length,
+            newUnits: growth.newUnits,
+            churnedUnits: growth.churnedUnits,
+            sameStoreChange: {
+              adr: calculatePercentageChange(sameStorePortfolio.current.adr, sameStorePortfolio.stly.adr),
+              occupancy: calculatePercentageChange(sameStorePortfolio.current.occupancy, sameStorePortfolio.stly.occupancy),
+              revpar: calculatePercentageChange(sameStorePortfolio.current.revpar, sameStorePortfolio.stly.revpar),
             },
           },
+          missingRevenueCount: portfolio.current.missingRevenueCount,
         };
-      }));
+      });
 
       return monthlyData;
     }),
 
-  // Get weekly pacing (WoW pickup) for future months
-  getWeeklyPacing: protectedProcedure
+  // Get weekly pacing (WoW pickup) for future months, plus configurable pickup windows
+  getWeeklyPacing: orgProcedure
     .input(z.object({
-      organizationId: z.string(),
+      pickupWindows: z.array(pickupWindowSchema).min(1).max(10).default([{ days: 7 }]),
+      // Where baselines come from: reconstructed from bookedAt, or the nightly snapshots
+      // (falls back to bookings for months without a snapshot from within a couple of days of that date)
+      baselineSource: z.enum(['bookings', 'snapshots']).default('bookings'),
+      revenueBasis: revenueBasisSchema,
     }))
     .output(z.array(weeklyPacingSchema))
     .query(async ({ ctx, input }) => {
-      const { organizationId } = input;
-      const userId = ctx.session.user.id;
+      const { organizationId, pickupWindows, baselineSource, revenueBasis } = input;
       const today = new Date();
       const sevenDaysAgo = subDays(today, 7);
 
-      // Verify user has access to this organization
-      const userOrg = await ctx.db.userOrganization.findFirst({
-        where: { 
-          userId,
-          organizationId,
-        },
+      // Snapshot baselines cover the whole portfolio
+      if (baselineSource === 'snapshots') {
+        assertFullPropertyAccess(ctx.accessiblePropertyIds);
+      }
+
+      // Resolve each pickup window to the date we compare today's on-the-books against
+      const resolvedWindows = pickupWindows.map(window => {
+        if ('days' in window) {
+          return { label: `${window.days}d`, asOf: subDays(today, window.days) };
+        }
+        if (isAfter(window.since, today)) {
+          throw new TRPCError({ code: 'BAD_REQUEST', message: 'Pickup window start date cannot be in the future' });
+        }
+        return { label: `since ${format(window.since, 'yyyy-MM-dd')}`, asOf: window.since };
       });
-      
-      if (!userOrg) {
-        throw new Error("Organization not found or access denied");
+
+      // Get next 12 months starting from current month
+      const months: Date[] = [];
+      for (let i = 0; i < 12; i++) {
+        months.push(startOfMonth(addMonths(today, i)));
       }
+      const rangeStart = months[0];
+      const rangeEnd = endOfMonth(months[months.length - 1]);
 
-      // Get active properties
+      // Get properties live at any point in the range
       const properties = await ctx.db.property.findMany({
         where: {
           organizationId,
-          isActive: true,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(rangeStart, rangeEnd),
         },
         select: {
           id: true,
+          activatedAt: true,
+          deactivatedAt: true,
         },
       });
 
@@ -667,168 +1021,1463 @@ export const analyticsRouter = createTRPCRouter({
         return [];
       }
 
-      // Get next 12 months starting from current month
-      const months: Date[] = [];
-      for (let i = 0; i < 12; i++) {
-        months.push(startOfMonth(addMonths(today, i)));
-      }
+      const capacity = await loadPortfolioCapacity(ctx.db, activeProperties, rangeStart, rangeEnd);
+
+      // Load the snapshot each baseline would have shown on its date
+      const weekAgoSnapshots = baselineSource === 'snapshots'
+        ? await getSnapshotsAsOf(ctx.db, organizationId, months, sevenDaysAgo, revenueBasis)
+        : new Map<string, SnapshotMetrics>();
+      const windowSnapshots = await Promise.all(resolvedWindows.map(window =>
+        baselineSource === 'snapshots'
+          ? getSnapshotsAsOf(ctx.db, organizationId, months, window.asOf, revenueBasis)
+          : new Map<string, SnapshotMetrics>()
+      ));
+
+      // Fetch the whole 12-month window once; every month is a slice of it.
+      // Earlier on-the-books positions are a subset of these, so windows are derived in memory.
+      const bookedNow = filterBookedBy(
+        await getMonthReservations(ctx.db, propertyIds, rangeStart, rangeEnd),
+        today
+      );
 
       // Process each month
-      const monthlyData = await Promise.all(months.map(async (monthStart) => {
+      const monthlyData = months.map((monthStart) => {
         const monthEnd = endOfMonth(monthStart);
+        const monthKey = format(monthStart, 'yyyy-MM');
         const monthDisplay = format(monthStart, 'MMMM yyyy');
 
         // Get current projections (reservations booked up to now)
-        const currentReservations = await ctx.db.wheelhouseReservation.findMany({
-          where: {
-            propertyId: { in: propertyIds },
-            bookedAt: { lte: today },
-            status: { notIn: ['cancelled', 'declined'] },
-            OR: [
-              {
-                startDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                endDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                startDate: { lt: monthStart },
-                endDate: { gt: monthEnd }
-              }
-            ]
-          },
-          select: {
-            startDate: true,
-            endDate: true,
-            totalPrice: true,
-            nightlySubtotal: true,
-          }
+        const currentReservations = bookedNow.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+
+        // Calculate metrics for each dataset
+        const monthCapacity = calculatePeriodCapacity(capacity, monthStart, monthEnd);
+        const currentMetrics = calculateMonthMetrics(currentReservations, monthStart, monthEnd, monthCapacity, revenueBasis);
+        const weekAgoMetrics = resolvePacingBaseline(
+          weekAgoSnapshots.get(monthKey),
+          sevenDaysAgo,
+          () => calculateMonthMetrics(filterBookedBy(currentReservations, sevenDaysAgo), monthStart, monthEnd, monthCapacity, revenueBasis)
+        );
+
+        // Calculate pickup (current - baseline) for each requested window
+        const pickups = resolvedWindows.map((window, index) => {
+          const baselineMetrics = resolvePacingBaseline(
+            windowSnapshots[index].get(monthKey),
+            window.asOf,
+            () => calculateMonthMetrics(filterBookedBy(currentReservations, window.asOf), monthStart, monthEnd, monthCapacity, revenueBasis)
+          );
+
+          return {
+            window: window.label,
+            asOf: baselineMetrics.asOf.toISOString(),
+            baselineSource: baselineMetrics.source,
+            adr: calculateDelta(currentMetrics.adr, baselineMetrics.adr),
+            occupancy: calculateDelta(currentMetrics.occupancy, baselineMetrics.occupancy),
+            revpar: calculateDelta(currentMetrics.revpar, baselineMetrics.revpar),
+            roomNights: currentMetrics.totalNights - baselineMetrics.totalNights,
+            revenue: currentMetrics.totalRevenue - baselineMetrics.totalRevenue,
+          };
         });
 
-        // Get projections from 7 days ago
-        const weekAgoReservations = await ctx.db.wheelhouseReservation.findMany({
-          where: {
-            propertyId: { in: propertyIds },
-            bookedAt: { lte: sevenDaysAgo },
-            status: { notIn: ['cancelled', 'declined'] },
-            OR: [
-              {
-                startDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                endDate: { gte: monthStart, lte: monthEnd }
-              },
-              {
-                startDate: { lt: monthStart },
-                endDate: { gt: monthEnd }
-              }
-            ]
-          },
-          select: {
-            startDate: true,
-            endDate: true,
-            totalPrice: true,
-            nightlySubtotal: true,
-          }
-        });
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay,
+          // Calculate WoW pickup (current - week ago)
+          wowPickup: {
+            adr: calculateDelta(currentMetrics.adr, weekAgoMetrics.adr),
+            occupancy: calculateDelta(currentMetrics.occupancy, weekAgoMetrics.occupancy),
+            revpar: calculateDelta(currentMetrics.revpar, weekAgoMetrics.revpar),
+          },
+          pickups,
+          missingRevenueCount: currentMetrics.missingRevenueCount,
+        };
+      });
 
-        // Calculate metrics for each dataset
-        const currentMetrics = calculateMonthMetrics(currentReservations, monthStart, monthEnd, activeProperties.length);
-        const weekAgoMetrics = calculateMonthMetrics(weekAgoReservations, monthStart, monthEnd, activeProperties.length);
-
-        // Calculate WoW pickup (current - week ago)
-        const adrWowPickup = currentMetrics.adr !== null && weekAgoMetrics.adr !== null 
-          ? currentMetrics.adr - weekAgoMetrics.adr 
-          : null;
-        const occupancyWowPickup = currentMetrics.occupancy !== null && weekAgoMetrics.occupancy !== null 
-          ? currentMetrics.occupancy - weekAgoMetrics.occupancy 
-          : null;
-        const revparWowPickup = currentMetrics.revpar !== null && weekAgoMetrics.revpar !== null 
-          ? currentMetrics.revpar - weekAgoMetrics.revpar 
-          : null;
+      return monthlyData;
+    }),
+
+  // Get market supply/demand overview from Key Data for the organization's market
+  getMarketOverview: orgProcedure
+    .input(z.object({
+      startDate: z.date(),
+      endDate: z.date(),
+    }))
+    .output(z.array(marketOverviewSchema))
+    .query(async ({ ctx, input }) => {
+      const { organizationId, startDate, endDate } = input;
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      const { organization } = ctx;
+
+      if (!organization.marketId) {
+        console.log('[Market Overview] No marketId found for organization');
+        return [];
+      }
+
+      // The response is validated before it is cached, so a malformed one is never reused
+      const { data: marketOverview } = await fetchKeyData<KeyDataMarketOverview[]>(
+        `/v2/markets/${organization.marketId}/overview`,
+        {
+          start_date: format(startDate, 'yyyy-MM-dd'),
+          end_date: format(endDate, 'yyyy-MM-dd'),
+          aggregation: 'monthly',
+        },
+        z.array(keyDataMarketOverviewSchema)
+      ).catch(toMarketDataError);
+
+      return marketOverview
+        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+        .map(period => ({
+          date: new Date(period.date).toISOString(),
+          listings: period.listings,
+          bookedListings: period.bookedListings,
+          availableListings: period.availableListings,
+          adr: period.adr,
+          medianAdr: period.medianAdr,
+          occupancy: period.occupancy,
+          revpar: period.revPar,
+        }));
+    }),
+
+  // Benchmark a single property against a Key Data comp set with matching amenities
+  getPropertyBenchmark: orgProcedure
+    .input(z.object({
+      propertyId: z.string(),
+      startDate: z.date(),
+      endDate: z.date(),
+      amenities: amenitiesFilterSchema.default({}),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(z.array(propertyBenchmarkSchema))
+    .query(async ({ ctx, input }) => {
+      const { organizationId, propertyId, startDate, endDate, amenities, revenueBasis } = input;
+      const userId = ctx.session.user.id;
+
+      // Verify the property belongs to the user and to this organization
+      await validatePropertyOwnership(userId, propertyId);
+      assertPropertyAccess(ctx.accessiblePropertyIds, propertyId);
+
+      const property = await ctx.db.property.findFirst({
+        where: {
+          id: propertyId,
+          organizationId,
+        },
+        select: { id: true, activatedAt: true, deactivatedAt: true },
+      });
+
+      if (!property) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Property not found' });
+      }
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      // Build the list of months covered by the requested range
+      const months: Date[] = [];
+      for (let monthStart = startOfMonth(startDate); !isAfter(monthStart, endDate); monthStart = addMonths(monthStart, 1)) {
+        months.push(monthStart);
+      }
+
+      if (months.length > 24) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Benchmark range cannot exceed 24 months' });
+      }
+
+      const { organization } = ctx;
+
+      // Nothing to benchmark against, so skip loading the property's figures
+      if (!organization.marketId) {
+        console.log('[Property Benchmark] No marketId found for organization');
+        return [];
+      }
+
+      const rangeStart = months[0];
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      const capacity = await loadPortfolioCapacity(ctx.db, [property], rangeStart, rangeEnd);
+
+      // Fetch comp set performance from Key Data, filtered by the requested amenities
+      const { data: compSet } = await fetchKeyData<KeyDataPropertyPerformance[]>(
+        `/v2/markets/${organization.marketId}/properties/performance`,
+        {
+          start_date: format(rangeStart, 'yyyy-MM-dd'),
+          end_date: format(rangeEnd, 'yyyy-MM-dd'),
+          aggregation: 'monthly',
+          ...buildAmenityParams(amenities),
+        },
+        z.array(keyDataPropertyPerformanceSchema)
+      ).catch(toMarketDataError);
+
+      // Group comp set rows by month
+      const compSetByMonth = new Map<string, KeyDataPropertyPerformance[]>();
+      for (const row of compSet) {
+        const monthKey = format(new Date(row.date), 'yyyy-MM');
+        const monthRows = compSetByMonth.get(monthKey) ?? [];
+        monthRows.push(row);
+        compSetByMonth.set(monthKey, monthRows);
+      }
+
+      // Fetch the property's reservations for the whole range once; every month is a slice of it
+      const rangeReservations = await getMonthReservations(ctx.db, [propertyId], rangeStart, rangeEnd);
+
+      // Process each month
+      const monthlyData = months.map((monthStart) => {
+        const monthEnd = endOfMonth(monthStart);
+        const monthKey = format(monthStart, 'yyyy-MM');
+        const monthDisplay = format(monthStart, 'MMMM yyyy');
+
+        const propertyMetrics = calculateMonthMetrics(
+          rangeReservations.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd)),
+          monthStart,
+          monthEnd,
+          calculatePeriodCapacity(capacity, monthStart, monthEnd),
+          revenueBasis
+        );
+        const compSetMetrics = calculateCompSetMetrics(compSetByMonth.get(monthKey) ?? [], monthStart);
 
         return {
           month: monthStart.toISOString(),
           monthDisplay,
-          wowPickup: {
-            adr: adrWowPickup,
-            occupancy: occupancyWowPickup,
-            revpar: revparWowPickup,
+          property: {
+            adr: propertyMetrics.adr,
+            occupancy: propertyMetrics.occupancy,
+            revpar: propertyMetrics.revpar,
           },
+          compSet: compSetMetrics,
+          index: {
+            adr: calculateIndex(propertyMetrics.adr, compSetMetrics.adr),
+            occupancy: calculateIndex(propertyMetrics.occupancy, compSetMetrics.occupancy),
+            revpar: calculateIndex(propertyMetrics.revpar, compSetMetrics.revpar),
+          },
+          missingRevenueCount: propertyMetrics.missingRevenueCount,
+        };
+      });
+
+      return monthlyData;
+    }),
+
+  // Rank the organization's properties by RGI (RevPAR index vs the market) for a month,
+  // with each property's MPI/ARI/RGI now and STLY
+  getPropertyRgiRanking: orgProcedure
+    .input(z.object({
+      month: z.date(),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(propertyRgiRankingSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, revenueBasis } = input;
+
+      const today = new Date();
+      const monthStart = startOfMonth(input.month);
+      const monthEnd = endOfMonth(monthStart);
+      const stlyMonthStart = subYears(monthStart, 1);
+      const stlyMonthEnd = endOfMonth(stlyMonthStart);
+
+      // Get properties live in the month or its STLY month
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(stlyMonthStart, monthEnd),
+        },
+        select: {
+          id: true,
+          title: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, stlyMonthStart, monthEnd);
+      const propertyIds = properties.map(property => property.id);
+
+      // Fetch both months once; on-the-books as of today and as of this time last year, as in the outlook
+      const windowReservations = propertyIds.length > 0
+        ? await getMonthReservations(ctx.db, propertyIds, stlyMonthStart, monthEnd)
+        : [];
+      const currentReservations = filterBookedBy(windowReservations, today)
+        .filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+      const stlyReservations = filterBookedBy(windowReservations, subYears(today, 1))
+        .filter(reservation => overlapsPeriod(reservation, stlyMonthStart, stlyMonthEnd));
+
+      // Market figures for the month and its STLY month
+      const noMarketData = { adr: null, occupancy: null, revpar: null };
+      let market: z.infer<typeof benchmarkMetricsSchema> = noMarketData;
+      let marketStly: z.infer<typeof benchmarkMetricsSchema> = noMarketData;
+      let marketDataStatus: z.infer<typeof marketDataStatusSchema> = 'unavailable';
+      let marketDataMessage: string | null = null;
+
+      const { organization } = ctx;
+
+      if (!organization.marketId) {
+        console.log('[RGI Ranking] No marketId found for organization');
+        marketDataMessage = 'No market is configured for this organization';
+      } else {
+        try {
+          const provider = getMarketDataProvider(organization.marketDataProvider);
+          const { months: marketMonths, stale } = await provider.getMonthlyPerformance(
+            organization.marketId,
+            stlyMonthStart,
+            monthEnd
+          );
+
+          const findMonth = (date: Date) => {
+            const marketMonth = marketMonths.find(row => row.month === format(date, 'yyyy-MM'));
+            return marketMonth
+              ? { adr: marketMonth.adr, occupancy: marketMonth.occupancy, revpar: marketMonth.revpar }
+              : noMarketData;
+          };
+          market = findMonth(monthStart);
+          marketStly = findMonth(stlyMonthStart);
+
+          marketDataStatus = stale
+            ? 'stale'
+            : market.revpar === null || marketStly.revpar === null ? 'partial' : 'ok';
+          marketDataMessage = marketDataStatus === 'stale'
+            ? 'Market data is temporarily served from an earlier fetch'
+            : marketDataStatus === 'partial'
+              ? 'Market data is missing for this month or its STLY month'
+              : null;
+        } catch (marketError) {
+          console.error('[RGI Ranking] Error fetching market data:', marketError);
+          marketDataMessage = marketError instanceof KeyDataError
+            ? describeKeyDataFailure(marketError)
+            : 'Market data could not be loaded';
+        }
+      }
+
+      // Calculate each property's metrics and indices
+      const propertyRows = properties.map(property => {
+        const isProperty = (reservation: { propertyId: string }) => reservation.propertyId === property.id;
+        const current = calculateMonthMetrics(
+          currentReservations.filter(isProperty),
+          monthStart,
+          monthEnd,
+          calculatePeriodCapacity(capacity, monthStart, monthEnd, [property.id]),
+          revenueBasis
+        );
+        const stly = calculateMonthMetrics(
+          stlyReservations.filter(isProperty),
+          stlyMonthStart,
+          stlyMonthEnd,
+          calculatePeriodCapacity(capacity, stlyMonthStart, stlyMonthEnd, [property.id]),
+          revenueBasis
+        );
+        const index = calculateMarketIndices(current, market);
+        const stlyIndex = calculateMarketIndices(stly, marketStly);
+
+        return {
+          propertyId: property.id,
+          propertyName: property.title,
+          current: { adr: current.adr, occupancy: current.occupancy, revpar: current.revpar },
+          stly: { adr: stly.adr, occupancy: stly.occupancy, revpar: stly.revpar },
+          index,
+          stlyIndex,
+          rgiChange: calculateDelta(index.rgi, stlyIndex.rgi),
+          missingRevenueCount: current.missingRevenueCount,
         };
+      });
+
+      // Highest RGI first, properties without one last
+      propertyRows.sort((a, b) => {
+        if (a.index.rgi === null || b.index.rgi === null) {
+          return (a.index.rgi === null ? 1 : 0) - (b.index.rgi === null ? 1 : 0);
+        }
+        return b.index.rgi - a.index.rgi;
+      });
+      let rank = 0;
+      const rankedProperties = propertyRows.map(row => ({
+        ...row,
+        rank: row.index.rgi === null ? null : ++rank,
       }));
 
+      return {
+        month: monthStart.toISOString(),
+        monthDisplay: format(monthStart, 'MMMM yyyy'),
+        market,
+        marketStly,
+        marketDataStatus,
+        marketDataMessage,
+        properties: rankedProperties,
+      };
+    }),
+
+  // Rebuild the on-the-books booking curve for a stay month, this year vs STLY
+  getBookingCurve: orgProcedure
+    .input(z.object({
+      month: z.date(),
+      maxDaysOut: z.number().int().min(1).max(365).default(180),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(bookingCurveSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, month, maxDaysOut, revenueBasis } = input;
+      const today = new Date();
+
+      const monthStart = startOfMonth(month);
+      const monthEnd = endOfMonth(monthStart);
+      const stlyMonthStart = subYears(monthStart, 1);
+      const stlyMonthEnd = endOfMonth(stlyMonthStart);
+
+      // Get properties live in either month
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(stlyMonthStart, monthEnd),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay: format(monthStart, 'MMMM yyyy'),
+          points: [],
+          missingRevenueCount: 0,
+        };
+      }
+
+      // Everything on the books today for the stay month (earlier positions are subsets of
+      // this), and everything booked for the same month last year
+      const [monthReservations, stlyReservations] = await Promise.all([
+        getMonthReservations(ctx.db, propertyIds, monthStart, monthEnd),
+        getMonthReservations(ctx.db, propertyIds, stlyMonthStart, stlyMonthEnd),
+      ]);
+      const currentReservations = filterBookedBy(monthReservations, today);
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, stlyMonthStart, monthEnd);
+      const monthCapacity = calculatePeriodCapacity(capacity, monthStart, monthEnd);
+      const stlyCapacity = calculatePeriodCapacity(capacity, stlyMonthStart, stlyMonthEnd);
+
+      const toCurvePoint = (metrics: PeriodMetrics) => ({
+        occupancy: metrics.occupancy,
+        adr: metrics.adr,
+        revenue: metrics.totalRevenue,
+        roomNights: metrics.totalNights,
+      });
+
+      // Walk from furthest out to arrival, rebuilding on-the-books at each point
+      const points: z.infer<typeof bookingCurveSchema>['points'] = [];
+      for (let daysBeforeArrival = maxDaysOut; daysBeforeArrival >= 0; daysBeforeArrival--) {
+        const asOf = subDays(monthStart, daysBeforeArrival);
+        const stlyAsOf = subDays(stlyMonthStart, daysBeforeArrival);
+
+        const currentMetrics = isAfter(asOf, today)
+          ? null
+          : calculateMonthMetrics(
+              filterBookedBy(currentReservations, asOf),
+              monthStart,
+              monthEnd,
+              monthCapacity,
+              revenueBasis
+            );
+        const stlyMetrics = calculateMonthMetrics(
+          filterBookedBy(stlyReservations, stlyAsOf),
+          stlyMonthStart,
+          stlyMonthEnd,
+          stlyCapacity,
+          revenueBasis
+        );
+
+        points.push({
+          daysBeforeArrival,
+          asOf: asOf.toISOString(),
+          current: currentMetrics ? toCurvePoint(currentMetrics) : null,
+          stly: toCurvePoint(stlyMetrics),
+        });
+      }
+
+      return {
+        month: monthStart.toISOString(),
+        monthDisplay: format(monthStart, 'MMMM yyyy'),
+        points,
+        missingRevenueCount: calculateMonthMetrics(currentReservations, monthStart, monthEnd, monthCapacity, revenueBasis).missingRevenueCount,
+      };
+    }),
+
+  // Forecast month-end performance for the next 12 months from on-the-books plus historical pickup
+  getMonthlyForecast: orgProcedure
+    .input(z.object({
+      historyYears: z.number().int().min(1).max(5).default(3),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(z.array(monthlyForecastSchema))
+    .query(async ({ ctx, input }) => {
+      const { organizationId, historyYears, revenueBasis } = input;
+      const today = new Date();
+
+      // Get next 12 months starting from current month
+      const months: Date[] = [];
+      for (let i = 0; i < 12; i++) {
+        months.push(startOfMonth(addMonths(today, i)));
+      }
+      const rangeStart = subYears(months[0], historyYears);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Get properties live at any point in the forecast or history range
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(rangeStart, rangeEnd),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return [];
+      }
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, rangeStart, rangeEnd);
+
+      // Fetch the forecast months and their history years once; every month is a slice of it
+      const windowReservations = await getMonthReservations(ctx.db, propertyIds, rangeStart, rangeEnd);
+
+      // Process each month
+      const monthlyData = months.map((monthStart) => {
+        const monthEnd = endOfMonth(monthStart);
+        const leadDays = differenceInDays(monthStart, today);
+
+        const currentReservations = windowReservations.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+        const onTheBooks = calculateMonthMetrics(
+          filterBookedBy(currentReservations, today),
+          monthStart,
+          monthEnd,
+          calculatePeriodCapacity(capacity, monthStart, monthEnd),
+          revenueBasis
+        );
+
+        const history = buildPickupHistory(windowReservations, capacity, monthStart, leadDays, historyYears, revenueBasis);
+        const forecast = forecastMonth(
+          { roomNights: onTheBooks.totalNights, revenue: onTheBooks.totalRevenue },
+          history,
+          onTheBooks.totalAvailableNights
+        );
+
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay: format(monthStart, 'MMMM yyyy'),
+          leadDays,
+          historyYears: forecast.historyYears,
+          onTheBooks: {
+            occupancy: onTheBooks.occupancy,
+            adr: onTheBooks.adr,
+            revpar: onTheBooks.revpar,
+            roomNights: onTheBooks.totalNights,
+            revenue: onTheBooks.totalRevenue,
+          },
+          forecast: {
+            occupancy: forecast.occupancy,
+            adr: forecast.adr,
+            revpar: forecast.revpar,
+            roomNights: forecast.roomNights,
+            revenue: forecast.revenue,
+          },
+          missingRevenueCount: onTheBooks.missingRevenueCount,
+        };
+      });
+
+      return monthlyData;
+    }),
+
+  // Backtest the forecast: re-run it for past months as of a fixed lead time and score against actuals
+  getForecastBacktest: orgProcedure
+    .input(z.object({
+      leadDays: z.number().int().min(0).max(365).default(30),
+      months: z.number().int().min(1).max(24).default(6),
+      historyYears: z.number().int().min(1).max(5).default(3),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(forecastBacktestSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, leadDays, months: monthCount, historyYears, revenueBasis } = input;
+      const today = new Date();
+
+      // Score the most recent completed months
+      const months: Date[] = [];
+      for (let i = monthCount; i >= 1; i--) {
+        months.push(startOfMonth(subMonths(today, i)));
+      }
+      const rangeStart = subYears(months[0], historyYears);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Get properties live at any point in the scored or history range
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(rangeStart, rangeEnd),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return { months: [], summary: summarizeBacktest([]) };
+      }
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, rangeStart, rangeEnd);
+
+      // Fetch the scored months and their history years once; every month is a slice of it
+      const windowReservations = await getMonthReservations(ctx.db, propertyIds, rangeStart, rangeEnd);
+
+      const backtestData = months.map((monthStart) => {
+        const monthEnd = endOfMonth(monthStart);
+        const asOf = subDays(monthStart, leadDays);
+
+        const reservations = windowReservations.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+        const monthCapacity = calculatePeriodCapacity(capacity, monthStart, monthEnd);
+        const onTheBooks = calculateMonthMetrics(filterBookedBy(reservations, asOf), monthStart, monthEnd, monthCapacity, revenueBasis);
+        const actual = calculateMonthMetrics(reservations, monthStart, monthEnd, monthCapacity, revenueBasis);
+
+        const history = buildPickupHistory(windowReservations, capacity, monthStart, leadDays, historyYears, revenueBasis);
+        const forecast = forecastMonth(
+          { roomNights: onTheBooks.totalNights, revenue: onTheBooks.totalRevenue },
+          history,
+          onTheBooks.totalAvailableNights
+        );
+        const actualMetrics = { occupancy: actual.occupancy, adr: actual.adr, revpar: actual.revpar };
+
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay: format(monthStart, 'MMMM yyyy'),
+          asOf: asOf.toISOString(),
+          forecast: {
+            occupancy: forecast.occupancy,
+            adr: forecast.adr,
+            revpar: forecast.revpar,
+          },
+          actual: actualMetrics,
+          ...scoreForecast(forecast, actualMetrics),
+          missingRevenueCount: actual.missingRevenueCount,
+        };
+      });
+
+      return {
+        months: backtestData,
+        summary: summarizeBacktest(backtestData),
+      };
+    }),
+
+  // Cancellation and booking-status analytics, by stay month and by booking month
+  getCancellationAnalytics: orgProcedure
+    .input(z.object({
+      startDate: z.date(),
+      endDate: z.date(),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(cancellationAnalyticsSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, startDate, endDate, revenueBasis } = input;
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      // Build the list of months covered by the requested range
+      const months: Date[] = [];
+      for (let monthStart = startOfMonth(startDate); !isAfter(monthStart, endDate); monthStart = addMonths(monthStart, 1)) {
+        months.push(monthStart);
+      }
+
+      if (months.length > 24) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cancellation analytics range cannot exceed 24 months' });
+      }
+
+      const rangeStart = months[0];
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Get properties live at any point in the range
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(rangeStart, rangeEnd),
+        },
+        select: {
+          id: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return { byStayMonth: [], byBookingMonth: [] };
+      }
+
+      // Every reservation (any status) that either stays in or was booked in the range
+      const reservations = await getBookingActivity(ctx.db, propertyIds, rangeStart, rangeEnd);
+
+      // Stay month view: nights and revenue are allocated to the month they fall in
+      const byStayMonth = months.map(monthStart => {
+        const monthEnd = endOfMonth(monthStart);
+        const staying = reservations.filter(reservation =>
+          isBefore(reservation.startDate, monthEnd) && isAfter(reservation.endDate, monthStart)
+        );
+
+        return summarizeCancellations(monthStart, staying, (group) => {
+          const metrics = calculateMonthMetrics(group, monthStart, monthEnd, 1, revenueBasis);
+          return {
+            roomNights: metrics.totalNights,
+            revenue: metrics.totalRevenue,
+            missingRevenueCount: metrics.missingRevenueCount,
+          };
+        });
+      });
+
+      // Booking month view: whole reservations are attributed to the month they were booked
+      const byBookingMonth = months.map(monthStart => {
+        const monthEnd = endOfMonth(monthStart);
+        const booked = reservations.filter(reservation =>
+          reservation.bookedAt !== null &&
+          !isBefore(reservation.bookedAt, monthStart) &&
+          !isAfter(reservation.bookedAt, monthEnd)
+        );
+
+        return summarizeCancellations(monthStart, booked, (group) => {
+          const revenues = group.map(reservation => getReservationRevenue(reservation, revenueBasis));
+          return {
+            roomNights: group.reduce((sum, reservation) => sum + differenceInDays(reservation.endDate, reservation.startDate), 0),
+            revenue: revenues.reduce<number>((sum, revenue) => sum + (revenue ?? 0), 0),
+            missingRevenueCount: revenues.filter(revenue => revenue === null).length,
+          };
+        });
+      });
+
+      return { byStayMonth, byBookingMonth };
+    }),
+
+  // Lead-time and length-of-stay histograms per stay month, with STLY comparison
+  getStayDistributions: orgProcedure
+    .input(z.object({
+      startDate: z.date(),
+      endDate: z.date(),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(z.array(stayDistributionSchema))
+    .query(async ({ ctx, input }) => {
+      const { organizationId, startDate, endDate, revenueBasis } = input;
+      const today = new Date();
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      // Build the list of months covered by the requested range
+      const months: Date[] = [];
+      for (let monthStart = startOfMonth(startDate); !isAfter(monthStart, endDate); monthStart = addMonths(monthStart, 1)) {
+        months.push(monthStart);
+      }
+
+      if (months.length > 24) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Distribution range cannot exceed 24 months' });
+      }
+
+      const rangeStart = subYears(months[0], 1);
+      const rangeEnd = endOfMonth(months[months.length - 1]);
+
+      // Get properties live at any point in the range (STLY included)
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(rangeStart, rangeEnd),
+        },
+        select: {
+          id: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return [];
+      }
+
+      // Fetch the whole window (STLY months included) once; every month is a slice of it.
+      // On the books today vs on the books this time last year.
+      const windowReservations = await getMonthReservations(ctx.db, propertyIds, rangeStart, rangeEnd);
+      const bookedNow = filterBookedBy(windowReservations, today);
+      const bookedStly = filterBookedBy(windowReservations, subYears(today, 1));
+
+      // Process each month
+      const monthlyData = months.map((monthStart) => {
+        const monthEnd = endOfMonth(monthStart);
+        const stlyMonthStart = subYears(monthStart, 1);
+        const stlyMonthEnd = endOfMonth(stlyMonthStart);
+
+        const currentReservations = bookedNow.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd));
+        const stlyReservations = bookedStly.filter(reservation => overlapsPeriod(reservation, stlyMonthStart, stlyMonthEnd));
+
+        const leadTimeOf = (reservation: { startDate: Date; bookedAt: Date }) =>
+          Math.max(0, differenceInDays(reservation.startDate, reservation.bookedAt));
+        const lengthOfStayOf = (reservation: { startDate: Date; endDate: Date }) =>
+          differenceInDays(reservation.endDate, reservation.startDate);
+
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay: format(monthStart, 'MMMM yyyy'),
+          leadTime: buildDistribution(
+            LEAD_TIME_BUCKETS,
+            leadTimeOf,
+            revenueBasis,
+            { reservations: currentReservations, monthStart, monthEnd },
+            { reservations: stlyReservations, monthStart: stlyMonthStart, monthEnd: stlyMonthEnd }
+          ),
+          lengthOfStay: buildDistribution(
+            LENGTH_OF_STAY_BUCKETS,
+            lengthOfStayOf,
+            revenueBasis,
+            { reservations: currentReservations, monthStart, monthEnd },
+            { reservations: stlyReservations, monthStart: stlyMonthStart, monthEnd: stlyMonthEnd }
+          ),
+          missingRevenueCount: calculateMonthMetrics(currentReservations, monthStart, monthEnd, 1, revenueBasis).missingRevenueCount,
+        };
+      });
+
       return monthlyData;
     }),
+
+  // Daily-grain performance calendar with same-weekday STLY and a day-of-week rollup
+  getDailyPerformance: orgProcedure
+    .input(z.object({
+      startDate: z.date(),
+      endDate: z.date(),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(dailyPerformanceSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, revenueBasis } = input;
+      const today = new Date();
+      const startDate = startOfDay(input.startDate);
+      const endDate = startOfDay(input.endDate);
+
+      if (isAfter(startDate, endDate)) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Start date must be on or before end date' });
+      }
+
+      if (differenceInDays(endDate, startDate) > 366) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Daily performance range cannot exceed 366 days' });
+      }
+
+      // Same weekday last year is 52 weeks (364 days) earlier
+      const stlyOffsetDays = 364;
+      const dates = eachDayOfInterval({ start: startDate, end: endDate });
+      const stlyDates = dates.map(date => subDays(date, stlyOffsetDays));
+
+      // Get properties live on any night of either range
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...accessiblePropertyFilter(ctx.accessiblePropertyIds),
+          ...liveDuringRange(stlyDates[0], endDate),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+
+      if (propertyIds.length === 0) {
+        return { days: [], dayOfWeek: [], missingRevenueCount: 0 };
+      }
+
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, stlyDates[0], endDate);
+
+      // On the books today for the range, and on the books a year (52 weeks) ago for the STLY range.
+      // Reservations checking out on the first night overlap the query range but add no nights.
+      const [rangeReservations, stlyRangeReservations] = await Promise.all([
+        getMonthReservations(ctx.db, propertyIds, startDate, endDate),
+        getMonthReservations(ctx.db, propertyIds, stlyDates[0], stlyDates[stlyDates.length - 1]),
+      ]);
+      const currentNights = expandReservationNights(filterBookedBy(rangeReservations, today), dates, revenueBasis);
+      const stlyNights = expandReservationNights(
+        filterBookedBy(stlyRangeReservations, subDays(today, stlyOffsetDays)),
+        stlyDates,
+        revenueBasis
+      );
+
+      const toDailyMetrics = (
+        night: { occupiedUnits: number; pricedUnits: number; revenue: number },
+        units: { availableUnits: number; ownerUnits: number }
+      ) => ({
+        occupiedUnits: night.occupiedUnits,
+        pricedUnits: night.pricedUnits,
+        availableUnits: units.availableUnits,
+        ownerUnits: units.ownerUnits,
+        occupancy: units.availableUnits > 0 ? (night.occupiedUnits / units.availableUnits) * 100 : null,
+        adr: night.pricedUnits > 0 ? night.revenue / night.pricedUnits : null,
+        revpar: units.availableUnits > 0 ? night.revenue / units.availableUnits : null,
+        revenue: night.revenue,
+      });
+
+      // Units sellable on a single night, after activation windows and blocks
+      const unitsOn = (date: Date) => {
+        const nightCapacity = calculatePeriodCapacity(capacity, date, date);
+        return { availableUnits: nightCapacity.availableNights, ownerUnits: nightCapacity.ownerNights };
+      };
+
+      const days = dates.map((date, index) => {
+        const dateKey = format(date, 'yyyy-MM-dd');
+        const stlyDateKey = format(stlyDates[index], 'yyyy-MM-dd');
+
+        return {
+          date: dateKey,
+          dayOfWeek: format(date, 'EEEE'),
+          ...toDailyMetrics(currentNights.nights.get(dateKey) ?? { occupiedUnits: 0, pricedUnits: 0, revenue: 0 }, unitsOn(date)),
+          stly: {
+            date: stlyDateKey,
+            ...toDailyMetrics(stlyNights.nights.get(stlyDateKey) ?? { occupiedUnits: 0, pricedUnits: 0, revenue: 0 }, unitsOn(stlyDates[index])),
+          },
+        };
+      });
+
+      // Roll the calendar up by weekday (Monday first)
+      const weekdays = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+      const dayOfWeek = weekdays
+        .filter(weekday => days.some(day => day.dayOfWeek === weekday))
+        .map(weekday => {
+          const matchingDays = days.filter(day => day.dayOfWeek === weekday);
+          const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+          return {
+            dayOfWeek: weekday,
+            ...toDailyMetrics({
+              occupiedUnits: sum(matchingDays.map(day => day.occupiedUnits)),
+              pricedUnits: sum(matchingDays.map(day => day.pricedUnits)),
+              revenue: sum(matchingDays.map(day => day.revenue)),
+            }, {
+              availableUnits: sum(matchingDays.map(day => day.availableUnits)),
+              ownerUnits: sum(matchingDays.map(day => day.ownerUnits)),
+            }),
+            stly: toDailyMetrics({
+              occupiedUnits: sum(matchingDays.map(day => day.stly.occupiedUnits)),
+              pricedUnits: sum(matchingDays.map(day => day.stly.pricedUnits)),
+              revenue: sum(matchingDays.map(day => day.stly.revenue)),
+            }, {
+              availableUnits: sum(matchingDays.map(day => day.stly.availableUnits)),
+              ownerUnits: sum(matchingDays.map(day => day.stly.ownerUnits)),
+            }),
+          };
+        });
+
+      return { days, dayOfWeek, missingRevenueCount: currentNights.missingRevenueCount };
+    }),
+
+  // Compare get_adr_occupancy_metrics (SQL) against the shared metrics engine month by month
+  getMetricsConsistencyReport: orgProcedure
+    .input(z.object({
+      tolerancePercentage: z.number().min(0).max(100).default(1),
+    }))
+    .output(metricsConsistencyReportSchema)
+    .query(async ({ ctx, input }) => {
+      const { organizationId, tolerancePercentage } = input;
+      const today = new Date();
+
+      // The SQL function reports the whole portfolio
+      assertFullPropertyAccess(ctx.accessiblePropertyIds);
+
+      const sqlData = await getSqlFunctionMetrics(ctx.db, organizationId);
+
+      // Nothing to compare (and no range to load the engine's figures for)
+      if (sqlData.length === 0) {
+        return { tolerancePercentage, monthsChecked: 0, mismatches: [] };
+      }
+
+      const sqlMonths = sqlData.map(row => startOfMonth(row.MonthYear).getTime());
+      const rangeStart = subYears(new Date(Math.min(...sqlMonths)), 1);
+      const rangeEnd = endOfMonth(new Date(Math.max(...sqlMonths)));
+
+      // Get properties live at any point in the reported months (STLY included).
+      // The SQL function still assumes every active property is available every night,
+      // so months with activations, deactivations or blocks are expected to show up here.
+      const properties = await ctx.db.property.findMany({
+        where: {
+          organizationId,
+          ...liveDuringRange(rangeStart, rangeEnd),
+        },
+        select: {
+          id: true,
+          activatedAt: true,
+          deactivatedAt: true,
+        },
+      });
+
+      const propertyIds = properties.map(p => p.id);
+      const capacity = await loadPortfolioCapacity(ctx.db, properties, rangeStart, rangeEnd);
+
+      const mismatches: z.infer<typeof metricsConsistencyReportSchema>['mismatches'] = [];
+
+      // The SQL function prices nights from nightlySubtotal, so compare on the room basis
+      const sqlMonthStarts = sqlData.map(sqlRow => startOfMonth(sqlRow.MonthYear));
+      const engineMetrics = propertyIds.length > 0
+        ? await calculateMonthsWithStly(ctx.db, capacity, sqlMonthStarts, today, 'room')
+        : [];
+
+      for (const [index, sqlRow] of sqlData.entries()) {
+        const monthStart = sqlMonthStarts[index];
+        const current = engineMetrics[index]?.current ?? null;
+        const stly = engineMetrics[index]?.stly ?? null;
+
+        const comparisons: Array<[string, number | null, number | null]> = [
+          ['Current_ADR', sqlRow.Current_ADR, current?.adr ?? null],
+          ['STLY_ADR', sqlRow.STLY_ADR, stly?.adr ?? null],
+          ['CurrentUserOccupancy', sqlRow.CurrentUserOccupancy, current?.occupancy ?? null],
+          ['CurrentUserSTLYOccupancy', sqlRow.CurrentUserSTLYOccupancy, stly?.occupancy ?? null],
+          ['CurrentUserRevPAR', sqlRow.CurrentUserRevPAR, current?.revpar ?? null],
+          ['CurrentUserSTLYRevPAR', sqlRow.CurrentUserSTLYRevPAR, stly?.revpar ?? null],
+        ];
+
+        for (const [metric, sqlValue, engineValue] of comparisons) {
+          const difference = calculateDelta(engineValue, sqlValue);
+          const differencePercentage = calculatePercentageChange(engineValue, sqlValue);
+
+          // A value present on only one side is always a mismatch
+          const isMismatch = difference === null
+            ? sqlValue !== engineValue
+            : differencePercentage === null
+              ? difference !== 0
+              : Math.abs(differencePercentage) > tolerancePercentage;
+
+          if (isMismatch) {
+            mismatches.push({
+              month: monthStart.toISOString(),
+              metric,
+              sqlValue,
+              engineValue,
+              difference,
+              differencePercentage,
+            });
+          }
+        }
+      }
+
+      console.log(`[Metrics Consistency] ${mismatches.length} mismatches across ${sqlData.length} months for organization:`, organizationId);
+
+      return {
+        tolerancePercentage,
+        monthsChecked: sqlData.length,
+        mismatches,
+      };
+    }),
+
+  // Capture today's on-the-books snapshot for an organization now (the nightly capture is `captureAllOrganizationSnapshots`)
+  captureAnalyticsSnapshot: orgManagerProcedure
+    .mutation(async ({ ctx, input }) => {
+      const { organizationId } = input;
+      assertFullPropertyAccess(ctx.accessiblePropertyIds);
+
+      const result = await captureOrganizationSnapshot(ctx.db, organizationId);
+
+      return {
+        snapshotDate: result.snapshotDate.toISOString(),
+        rows: result.rows,
+      };
+    }),
+
+  // Read the on-the-books metrics exactly as the snapshot showed them on a past date
+  getAnalyticsAsOf: orgProcedure
+    .input(z.object({
+      asOf: z.date(),
+      revenueBasis: revenueBasisSchema,
+    }))
+    .output(z.array(analyticsAsOfSchema))
+    .query(async ({ ctx, input }) => {
+      const { organizationId, asOf, revenueBasis } = input;
+
+      // Snapshots are taken for the whole portfolio
+      assertFullPropertyAccess(ctx.accessiblePropertyIds);
+
+      if (isAfter(asOf, new Date())) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'As-of date cannot be in the future' });
+      }
+
+      // The stay months a snapshot taken that day covered
+      const months: Date[] = [];
+      for (let i = 0; i < SNAPSHOT_MONTHS_AHEAD; i++) {
+        months.push(startOfMonth(addMonths(asOf, i)));
+      }
+
+      // No age limit: this report shows whatever the latest snapshot was, with its date
+      const snapshots = await getSnapshotsAsOf(ctx.db, organizationId, months, asOf, revenueBasis, null);
+
+      return months.map(monthStart => {
+        const snapshot = snapshots.get(format(monthStart, 'yyyy-MM'));
+
+        return {
+          month: monthStart.toISOString(),
+          monthDisplay: format(monthStart, 'MMMM yyyy'),
+          snapshotDate: snapshot ? snapshot.snapshotDate.toISOString() : null,
+          occupancy: snapshot?.occupancy ?? null,
+          adr: snapshot?.adr ?? null,
+          revpar: snapshot?.revpar ?? null,
+          roomNights: snapshot?.roomNights ?? null,
+          revenue: snapshot?.revenue ?? null,
+          ownerNights: snapshot?.ownerNights ?? null,
+          missingRevenueCount: snapshot?.missingRevenueCount ?? null,
+        };
+      });
+    }),
 });
 
-// Helper function to calculate percentage change
-function calculatePercentageChange(current: number | null, previous: number | null): number | null {
-  if (current === null || previous === null || previous === 0) {
-    return null;
+// Helper function to read monthly metrics from the get_adr_occupancy_metrics SQL function
+async function getSqlFunctionMetrics(db: typeof prismaClient, organizationId: string) {
+  const rawData = await db.$queryRaw<Array<{
+    MonthYear: Date;
+    Current_ADR: Decimal | null;
+    STLY_ADR: Decimal | null;
+    CurrentUserOccupancy: Decimal | null;
+    CurrentUserSTLYOccupancy: Decimal | null;
+    CurrentUserRevPAR: Decimal | null;
+    CurrentUserSTLYRevPAR: Decimal | null;
+  }>>`
+    SELECT 
+      "MonthYear", 
+      "Current_ADR", 
+      "STLY_ADR",
+      "CurrentUserOccupancy",
+      "CurrentUserSTLYOccupancy",
+      "CurrentUserRevPAR",
+      "CurrentUserSTLYRevPAR"
+    FROM get_adr_occupancy_metrics(${organizationId}::text)
+    ORDER BY "MonthYear" ASC
+  `;
+
+  // Transform the data to ensure proper number conversion
+  return rawData.map(row => ({
+    MonthYear: row.MonthYear,
+    Current_ADR: row.Current_ADR === null ? null : Number(row.Current_ADR),
+    STLY_ADR: row.STLY_ADR === null ? null : Number(row.STLY_ADR),
+    CurrentUserOccupancy: row.CurrentUserOccupancy === null ? null : Number(row.CurrentUserOccupancy),
+    CurrentUserSTLYOccupancy: row.CurrentUserSTLYOccupancy === null ? null : Number(row.CurrentUserSTLYOccupancy),
+    CurrentUserRevPAR: row.CurrentUserRevPAR === null ? null : Number(row.CurrentUserRevPAR),
+    CurrentUserSTLYRevPAR: row.CurrentUserSTLYRevPAR === null ? null : Number(row.CurrentUserSTLYRevPAR),
+  }));
+}
+
+// Helper function to collect prior years' on-the-books vs final positions at the same lead time,
+// from reservations already loaded for a window that covers the history years
+function buildPickupHistory<T extends MetricsReservation & { bookedAt: Date | null }>(
+  windowReservations: T[],
+  capacity: PortfolioCapacity,
+  monthStart: Date,
+  leadDays: number,
+  historyYears: number,
+  revenueBasis: RevenueBasis
+): PickupObservation[] {
+  const history: PickupObservation[] = [];
+
+  for (let yearsBack = 1; yearsBack <= historyYears; yearsBack++) {
+    const pastMonthStart = subYears(monthStart, yearsBack);
+    const pastMonthEnd = endOfMonth(pastMonthStart);
+    const reservations = windowReservations.filter(reservation => overlapsPeriod(reservation, pastMonthStart, pastMonthEnd));
+
+    // Skip years with no stays at all (e.g. before the portfolio was onboarded)
+    if (reservations.length === 0) continue;
+
+    const pastCapacity = calculatePeriodCapacity(capacity, pastMonthStart, pastMonthEnd);
+    const onTheBooks = calculateMonthMetrics(
+      filterBookedBy(reservations, subDays(pastMonthStart, leadDays)),
+      pastMonthStart,
+      pastMonthEnd,
+      pastCapacity,
+      revenueBasis
+    );
+    const final = calculateMonthMetrics(reservations, pastMonthStart, pastMonthEnd, pastCapacity, revenueBasis);
+
+    history.push({
+      onTheBooks: { roomNights: onTheBooks.totalNights, revenue: onTheBooks.totalRevenue },
+      final: { roomNights: final.totalNights, revenue: final.totalRevenue },
+    });
   }
-  return ((current - previous) / previous) * 100;
+
+  return history;
 }
 
-// Helper function to calculate metrics for a given set of reservations within a month
-function calculateMonthMetrics(
-  reservations: Array<{
-    startDate: Date;
-    endDate: Date;
-    totalPrice: any;
-    nightlySubtotal: any;
-  }>,
+// Helper function to summarise booking status for one month of reservations
+function summarizeCancellations<T extends MetricsReservation & { bookedAt: Date | null; status: string }>(
   monthStart: Date,
-  monthEnd: Date,
-  propertyCount: number
+  reservations: T[],
+  measure: (group: T[]) => { roomNights: number; revenue: number; missingRevenueCount: number }
 ) {
-  let totalNights = 0;
-  let totalRevenue = 0;
-
-  // Calculate nights and revenue for each reservation
-  for (const reservation of reservations) {
-    const resStart = reservation.startDate;
-    const resEnd = reservation.endDate;
-
-    // Calculate overlap with the month
-    const overlapStart = isAfter(resStart, monthStart) ? resStart : monthStart;
-    const overlapEnd = isBefore(resEnd, monthEnd) ? resEnd : monthEnd;
-
-    // Only process if there's actual overlap
-    if (isAfter(overlapEnd, overlapStart)) {
-      const nightsInMonth = differenceInDays(overlapEnd, overlapStart);
-      totalNights += nightsInMonth;
-
-      // Calculate revenue for the nights in this month
-      // Use nightlySubtotal if available, otherwise use totalPrice
-      if (reservation.nightlySubtotal) {
-        const totalNights = differenceInDays(resEnd, resStart);
-        const nightlyRate = totalNights > 0 ? Number(reservation.nightlySubtotal) / totalNights : 0;
-        totalRevenue += nightlyRate * nightsInMonth;
-      } else if (reservation.totalPrice) {
-        // Allocate total price proportionally to nights in this month
-        const totalReservationNights = differenceInDays(resEnd, resStart);
-        const monthRevenue = totalReservationNights > 0 ? (Number(reservation.totalPrice) / totalReservationNights) * nightsInMonth : 0;
-        totalRevenue += monthRevenue;
-      }
+  const declined = reservations.filter(reservation => reservation.status === 'declined');
+  const bookings = reservations.filter(reservation => reservation.status !== 'declined');
+  const cancelled = bookings.filter(reservation => reservation.status === 'cancelled');
+
+  const gross = measure(bookings);
+  const lost = measure(cancelled);
+
+  const cancelledLeadTimes = cancelled.flatMap(reservation =>
+    reservation.bookedAt === null ? [] : [differenceInDays(reservation.startDate, reservation.bookedAt)]
+  );
+
+  return {
+    month: monthStart.toISOString(),
+    monthDisplay: format(monthStart, 'MMMM yyyy'),
+    bookings: bookings.length,
+    cancellations: cancelled.length,
+    declined: declined.length,
+    cancellationRate: bookings.length > 0 ? (cancelled.length / bookings.length) * 100 : null,
+    averageCancelledLeadTime: cancelledLeadTimes.length > 0
+      ? cancelledLeadTimes.reduce((sum, days) => sum + days, 0) / cancelledLeadTimes.length
+      : null,
+    grossRoomNights: gross.roomNights,
+    roomNightsLost: lost.roomNights,
+    netRoomNights: gross.roomNights - lost.roomNights,
+    grossRevenue: gross.revenue,
+    revenueLost: lost.revenue,
+    netRevenue: gross.revenue - lost.revenue,
+    missingRevenueCount: gross.missingRevenueCount,
+  };
+}
+
+// Helper function to bucket a month's reservations and compare each bucket against STLY
+function buildDistribution<T extends MetricsReservation>(
+  buckets: Array<{ label: string; min: number; max: number | null }>,
+  valueOf: (reservation: T) => number,
+  revenueBasis: RevenueBasis,
+  current: { reservations: T[]; monthStart: Date; monthEnd: Date },
+  stly: { reservations: T[]; monthStart: Date; monthEnd: Date }
+) {
+  const summarize = (period: typeof current) => {
+    // Only stays with at least one night in the month (same test as the cancellation stay-month
+    // filter); the month query also returns stays checking out on the 1st
+    const stays = period.reservations.filter(reservation =>
+      isBefore(reservation.startDate, period.monthEnd) && isAfter(reservation.endDate, period.monthStart)
+    );
+    const monthRevenue = calculateMonthMetrics(stays, period.monthStart, period.monthEnd, 1, revenueBasis).totalRevenue;
+
+    return buckets.map(bucket => {
+      const inBucket = stays.filter(reservation => {
+        const value = valueOf(reservation);
+        return value >= bucket.min && (bucket.max === null || value <= bucket.max);
+      });
+      const metrics = calculateMonthMetrics(inBucket, period.monthStart, period.monthEnd, 1, revenueBasis);
+
+      return {
+        reservations: inBucket.length,
+        roomNights: metrics.totalNights,
+        revenue: metrics.totalRevenue,
+        adr: metrics.adr,
+        revenueShare: monthRevenue > 0 ? (metrics.totalRevenue / monthRevenue) * 100 : null,
+      };
+    });
+  };
+
+  const currentStats = summarize(current);
+  const stlyStats = summarize(stly);
+
+  return buckets.map((bucket, index) => ({
+    bucket: bucket.label,
+    current: currentStats[index],
+    stly: stlyStats[index],
+  }));
+}
+
+// Comprehensive analytics columns computed from our own reservations
+type PortfolioAnalyticsRow = Pick<z.infer<typeof comprehensiveAnalyticsOutputSchema>,
+  | 'Current_ADR'
+  | 'STLY_ADR'
+  | 'CurrentUserOccupancy'
+  | 'CurrentUserSTLYOccupancy'
+  | 'CurrentUserRevPAR'
+  | 'CurrentUserSTLYRevPAR'
+  | 'CurrentOwnerNights'
+  | 'STLYOwnerNights'
+  | 'MissingRevenueCount'
+> & { MonthYear: Date };
+
+// Helper function to build a comprehensive analytics row with every market column empty
+function withoutMarketData(
+  row: PortfolioAnalyticsRow,
+  status: z.infer<typeof marketDataStatusSchema>,
+  message: string
+): z.infer<typeof comprehensiveAnalyticsOutputSchema> {
+  return {
+    ...row,
+    MonthYear: row.MonthYear.toISOString(),
+    Market_ADR_Current: null,
+    MarketOccupancyCurrent: null,
+    MarketRevPARCurrent: null,
+    Market_ADR_STLY: null,
+    MarketOccupancySTLY: null,
+    MarketRevPARSTLY: null,
+    MPI_Current: null,
+    MPI_STLY: null,
+    MPI_Change: null,
+    ARI_Current: null,
+    ARI_STLY: null,
+    ARI_Change: null,
+    RGI_Current: null,
+    RGI_STLY: null,
+    RGI_Change: null,
+    MarketDataStatus: status,
+    MarketDataMessage: message,
+  };
+}
+
+// Helper function to build the current/STLY/variance/WoW structure for one outlook month
+function buildOutlookMetrics(
+  currentMetrics: PeriodMetrics,
+  weekAgoMetrics: PeriodMetrics,
+  stlyMetrics: PeriodMetrics
+) {
+  const buildMetric = (current: number | null, weekAgo: number | null, stly: number | null) => ({
+    currentProjection: current,
+    stlyActual: stly,
+    varianceVsStly: {
+      absolute: calculateDelta(current, stly),
+      percentage: calculatePercentageChange(current, stly),
+    },
+    wowPickup: calculateDelta(current, weekAgo),
+  });
+
+  return {
+    adr: buildMetric(currentMetrics.adr, weekAgoMetrics.adr, stlyMetrics.adr),
+    occupancy: buildMetric(currentMetrics.occupancy, weekAgoMetrics.occupancy, stlyMetrics.occupancy),
+    revpar: buildMetric(currentMetrics.revpar, weekAgoMetrics.revpar, stlyMetrics.revpar),
+  };
+}
+
+// Helper function to pick a pacing baseline: the stored snapshot when there is one,
+// otherwise the position reconstructed from bookedAt
+function resolvePacingBaseline(snapshot: SnapshotMetrics | undefined, asOf: Date, reconstruct: () => PeriodMetrics) {
+  if (snapshot) {
+    return {
+      asOf: snapshot.snapshotDate, // May be a day or two before the requested date
+      adr: snapshot.adr,
+      occupancy: snapshot.occupancy,
+      revpar: snapshot.revpar,
+      totalNights: snapshot.roomNights,
+      totalRevenue: snapshot.revenue,
+      source: 'snapshot' as const,
+    };
+  }
+
+  const metrics = reconstruct();
+  return {
+    asOf,
+    adr: metrics.adr,
+    occupancy: metrics.occupancy,
+    revpar: metrics.revpar,
+    totalNights: metrics.totalNights,
+    totalRevenue: metrics.totalRevenue,
+    source: 'bookings' as const,
+  };
+}
+
+// Helper function to turn a Key Data failure into a message for the UI
+function describeKeyDataFailure(error: KeyDataError): string {
+  switch (error.reason) {
+    case 'circuit_open':
+      return 'Market data provider is temporarily unavailable';
+    case 'rate_limited':
+      return 'Market data provider rate limit reached; try again shortly';
+    case 'invalid_response':
+      return 'Market data provider returned an unexpected response';
+    case 'request_failed':
+      return 'Market data request failed';
+  }
+}
+
+// Helper function to turn a failed Key Data call into a typed tRPC error with a UI message.
+// Anything that isn't a KeyDataError is rethrown unchanged.
+function toMarketDataError(error: unknown): never {
+  if (error instanceof KeyDataError) {
+    throw new TRPCError({
+      code: error.reason === 'rate_limited' ? 'TOO_MANY_REQUESTS' : 'INTERNAL_SERVER_ERROR',
+      message: describeKeyDataFailure(error),
+      cause: error,
+    });
+  }
+  throw error;
+}
+
+// Helper function to calculate market penetration indices: MPI (occupancy), ARI (ADR) and RGI (RevPAR)
+function calculateMarketIndices(
+  ours: z.infer<typeof benchmarkMetricsSchema>,
+  market: z.infer<typeof benchmarkMetricsSchema>
+): z.infer<typeof marketIndexSchema> {
+  return {
+    mpi: calculateIndex(ours.occupancy, market.occupancy),
+    ari: calculateIndex(ours.adr, market.adr),
+    rgi: calculateIndex(ours.revpar, market.revpar),
+  };
+}
+
+// Helper function to calculate a performance index (ours / benchmark * 100)
+function calculateIndex(value: number | null, benchmark: number | null): number | null {
+  if (value === null || benchmark === null || benchmark === 0) {
+    return null;
+  }
+  return (value / benchmark) * 100;
+}
+
+// Helper function to translate amenity filters into Key Data query params
+function buildAmenityParams(amenities: Partial<KeyDataAmenities>) {
+  const paramNames: Record<keyof KeyDataAmenities, string> = {
+    balcony: 'balcony',
+    pool: 'pool',
+    hotTub: 'hot_tub',
+    petFriendly: 'pet_friendly',
+    beachfront: 'beachfront',
+    skiInSkiOut: 'ski_in_ski_out',
+    evCharger: 'ev_charger',
+  };
+
+  const params: Record<string, boolean> = {};
+  for (const [amenity, paramName] of Object.entries(paramNames) as Array<[keyof KeyDataAmenities, string]>) {
+    const value = amenities[amenity];
+    if (value !== undefined) {
+      params[paramName] = value;
     }
   }
+  return params;
+}
 
-  // Calculate total available nights for all properties
-  const daysInMonth = differenceInDays(monthEnd, monthStart) + 1;
-  const totalAvailableNights = propertyCount * daysInMonth;
+// Helper function to aggregate comp set rows for a single month.
+// Listings differ in size and availability, so the comp set is pooled rather than averaged
+// listing by listing (as for market data, see ~/server/api/utils/marketData): ADR is revenue
+// over room nights, and occupancy and RevPAR are over the listings' combined available nights.
+function calculateCompSetMetrics(rows: KeyDataPropertyPerformance[], monthStart: Date) {
+  if (rows.length === 0) {
+    return { adr: null, occupancy: null, revpar: null, listings: 0 };
+  }
 
-  // Calculate metrics
-  const occupancy = totalAvailableNights > 0 ? (totalNights / totalAvailableNights) * 100 : null;
-  const adr = totalNights > 0 ? totalRevenue / totalNights : null;
-  const revpar = totalAvailableNights > 0 ? totalRevenue / totalAvailableNights : null;
+  const totalRevenue = rows.reduce((sum, row) => sum + row.revenue, 0);
+  const totalRoomNights = rows.reduce((sum, row) => sum + row.roomNights, 0);
+  // A listing's available nights follow from its room nights and occupancy (a percentage);
+  // listings without bookings count as available every night of the month
+  const totalAvailableNights = rows.reduce((sum, row) =>
+    sum + (row.occupancy > 0 ? row.roomNights / (row.occupancy / 100) : getDaysInMonth(monthStart)), 0);
 
   return {
-    adr,
-    occupancy,
-    revpar,
-    totalNights,
-    totalRevenue,
-    totalAvailableNights,
+    adr: totalRoomNights > 0 ? totalRevenue / totalRoomNights : null,
+    occupancy: totalAvailableNights > 0 ? (totalRoomNights / totalAvailableNights) * 100 : null,
+    revpar: totalAvailableNights > 0 ? totalRevenue / totalAvailableNights : null,
+    listings: new Set(rows.map(row => row.property_name)).size,
   };
 }
@@ -0,0 +1,100 @@
+import { subDays } from 'date-fns';
+import { protectedProcedure } from '~/server/api/trpc';
+import { type db as prismaClient } from '~/server/db';
+
+// Audit log.
+//
+// Every admin and organization procedure call is recorded in `auditLog`: who called it,
+// for which organization, the procedure path and type, its input, and whether it succeeded.
+// Calls that were denied (FORBIDDEN / NOT_FOUND) are recorded too. Entries older than the
+// retention period are deleted by `purgeExpiredAuditLogs`, run nightly by `runNightlyJobs`
+// (~/server/jobs/nightly).
+//
+// The organization id in the input is stored as `requestedOrganizationId` (no foreign key),
+// since it may not exist. `organizationId` is only set once the organization middleware has
+// loaded the organization, through the `ctx.audit` record this procedure adds.
+
+// How long audit entries are kept
+export const AUDIT_LOG_RETENTION_DAYS = 365;
+
+export interface AuditEvent {
+  actorId: string;
+  organizationId: string | null; // Verified to exist
+  requestedOrganizationId: string | null; // As given in the input
+  procedure: string;
+  type: string; // query | mutation
+  input: unknown;
+  success: boolean;
+  errorCode: string | null;
+}
+
+// Helper function to read the organization a call targets from its raw input
+function getInputOrganizationId(input: unknown): string | null {
+  if (input !== null && typeof input === 'object' && 'organizationId' in input) {
+    const { organizationId } = input as { organizationId: unknown };
+    return typeof organizationId === 'string' ? organizationId : null;
+  }
+  return null;
+}
+
+// Record one procedure call. Never throws: a failed write is logged, not surfaced to the caller.
+export async function recordAuditEvent(db: typeof prismaClient, event: AuditEvent) {
+  try {
+    await db.auditLog.create({
+      data: {
+        actorId: event.actorId,
+        organizationId: event.organizationId,
+        requestedOrganizationId: event.requestedOrganizationId,
+        procedure: event.procedure,
+        type: event.type,
+        // Round-trip through JSON so dates and other values store as plain JSON
+        input: event.input === undefined ? undefined : JSON.parse(JSON.stringify(event.input)),
+        success: event.success,
+        errorCode: event.errorCode,
+      },
+    });
+  } catch (error) {
+    console.error('[Audit Log] Failed to record call to:', event.procedure, error);
+  }
+}
+
+// Delete audit entries older than the retention period
+export async function purgeExpiredAuditLogs(
+  db: typeof prismaClient,
+  retentionDays: number = AUDIT_LOG_RETENTION_DAYS,
+  now: Date = new Date()
+) {
+  const cutoff = subDays(now, retentionDays);
+  const { count } = await db.auditLog.deleteMany({
+    where: {
+      createdAt: { lt: cutoff },
+    },
+  });
+
+  console.log('[Audit Log] Purged', count, 'entries older than', cutoff.toISOString());
+  return { cutoff, count };
+}
+
+// Details later middleware fills in for the audit entry
+export interface AuditContext {
+  organizationId: string | null;
+}
+
+// Protected procedure that records every call once it completes
+export const auditedProcedure = protectedProcedure.use(async ({ ctx, path, type, rawInput, next }) => {
+  const audit: AuditContext = { organizationId: null };
+  const result = await next({ ctx: { audit } });
+
+  await recordAuditEvent(ctx.db, {
+    actorId: ctx.session.user.id,
+    organizationId: audit.organizationId,
+    requestedOrganizationId: getInputOrganizationId(rawInput),
+    procedure: path,
+    type,
+    input: rawInput,
+    success: result.ok,
+    errorCode: result.ok ? null : result.error.code,
+  });
+
+  return result;
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { createTRPCRouter } from '~/server/api/trpc';
+import { createFakeDb } from '~/test/fakeDb';
+import { createTestCaller } from '~/test/caller';
+import {
+  accessiblePropertyFilter,
+  hasOrganizationRole,
+  orgManagerProcedure,
+  orgProcedure,
+  parseOrganizationRole,
+} from './authorization';
+
+// A router exposing each organization procedure as-is
+const testRouter = createTRPCRouter({
+  read: orgProcedure.query(({ ctx }) => ({
+    organizationId: ctx.organization.id,
+    role: ctx.organizationRole,
+    accessiblePropertyIds: ctx.accessiblePropertyIds,
+  })),
+  manage: orgManagerProcedure.mutation(({ ctx }) => ctx.organizationRole),
+});
+
+function seedOrganization() {
+  return createFakeDb({
+    organization: [
+      { id: 'org-a', name: 'Alpha Homes', marketId: null, marketDataProvider: null },
+    ],
+    userOrganization: [
+      { userId: 'owner-user', organizationId: 'org-a', role: 'owner' },
+      { userId: 'manager-user', organizationId: 'org-a', role: 'MANAGER' },
+      { userId: 'viewer-user', organizationId: 'org-a', role: 'viewer', propertyAccessRestricted: true },
+      { userId: 'unassigned-user', organizationId: 'org-a', role: 'viewer', propertyAccessRestricted: true },
+      { userId: 'legacy-user', organizationId: 'org-a', role: null },
+    ],
+    userPropertyAccess: [
+      { userId: 'viewer-user', propertyId: 'prop-1', property: { organizationId: 'org-a' } },
+      { userId: 'owner-user', propertyId: 'prop-2', property: { organizationId: 'org-a' } },
+    ],
+  });
+}
+
+describe('orgProcedure', () => {
+  it('rejects users who are not members of the organization', async () => {
+    const db = seedOrganization();
+    const caller = createTestCaller(testRouter, db, 'outsider-user');
+
+    await expect(caller.read({ organizationId: 'org-a' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+    expect(db.userPropertyAccess.findMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown organizations the same way as non-members', async () => {
+    const db = seedOrganization();
+    const denied = { code: 'FORBIDDEN', message: 'Organization not found or access denied' };
+
+    await expect(createTestCaller(testRouter, db, 'owner-user').read({ organizationId: 'org-missing' }))
+      .rejects.toMatchObject(denied);
+    await expect(createTestCaller(testRouter, db, 'outsider-user').read({ organizationId: 'org-a' }))
+      .rejects.toMatchObject(denied);
+  });
+
+  it('audits the organization only once it is known to exist', async () => {
+    const db = seedOrganization();
+
+    await expect(createTestCaller(testRouter, db, 'owner-user').read({ organizationId: 'org-missing' })).rejects.toThrow();
+    await createTestCaller(testRouter, db, 'owner-user').read({ organizationId: 'org-a' });
+
+    expect(db.auditLog.create.mock.calls.map(([args]) => args.data)).toEqual([
+      expect.objectContaining({ organizationId: null, requestedOrganizationId: 'org-missing', success: false }),
+      expect.objectContaining({ organizationId: 'org-a', requestedOrganizationId: 'org-a', success: true }),
+    ]);
+  });
+
+  it('adds the organization, role and accessible properties to the context', async () => {
+    const db = seedOrganization();
+
+    await expect(createTestCaller(testRouter, db, 'owner-user').read({ organizationId: 'org-a' })).resolves.toEqual({
+      organizationId: 'org-a',
+      role: 'owner',
+      accessiblePropertyIds: null,
+    });
+    await expect(createTestCaller(testRouter, db, 'viewer-user').read({ organizationId: 'org-a' })).resolves.toEqual({
+      organizationId: 'org-a',
+      role: 'viewer',
+      accessiblePropertyIds: ['prop-1'],
+    });
+  });
+
+  it('limits restricted members to their assigned properties, even when they have none', async () => {
+    const db = seedOrganization();
+
+    await expect(createTestCaller(testRouter, db, 'unassigned-user').read({ organizationId: 'org-a' }))
+      .resolves.toMatchObject({ accessiblePropertyIds: [] });
+  });
+
+  it('ignores property access rows on unrestricted memberships', async () => {
+    const db = seedOrganization();
+
+    await expect(createTestCaller(testRouter, db, 'owner-user').read({ organizationId: 'org-a' }))
+      .resolves.toMatchObject({ accessiblePropertyIds: null });
+    expect(db.userPropertyAccess.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('orgManagerProcedure', () => {
+  it('rejects viewers', async () => {
+    const caller = createTestCaller(testRouter, seedOrganization(), 'viewer-user');
+
+    await expect(caller.manage({ organizationId: 'org-a' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('treats memberships without a role as viewers', async () => {
+    const caller = createTestCaller(testRouter, seedOrganization(), 'legacy-user');
+
+    await expect(caller.manage({ organizationId: 'org-a' })).rejects.toMatchObject({ code: 'FORBIDDEN' });
+  });
+
+  it('allows managers and owners', async () => {
+    const db = seedOrganization();
+
+    await expect(createTestCaller(testRouter, db, 'manager-user').manage({ organizationId: 'org-a' })).resolves.toBe('manager');
+    await expect(createTestCaller(testRouter, db, 'owner-user').manage({ organizationId: 'org-a' })).resolves.toBe('owner');
+  });
+});
+
+describe('organization roles', () => {
+  it('ranks owner above manager above viewer', () => {
+    expect(hasOrganizationRole('owner', 'manager')).toBe(true);
+    expect(hasOrganizationRole('manager', 'manager')).toBe(true);
+    expect(hasOrganizationRole('viewer', 'manager')).toBe(false);
+  });
+
+  it('reads unknown roles as viewer', () => {
+    expect(parseOrganizationRole('Owner')).toBe('owner');
+    expect(parseOrganizationRole('superuser')).toBe('viewer');
+    expect(parseOrganizationRole(undefined)).toBe('viewer');
+  });
+});
+
+describe('accessiblePropertyFilter', () => {
+  it('narrows requested properties to the accessible ones', () => {
+    expect(accessiblePropertyFilter(null)).toEqual({});
+    expect(accessiblePropertyFilter(null, ['prop-2'])).toEqual({ id: { in: ['prop-2'] } });
+    expect(accessiblePropertyFilter(['prop-1'], ['prop-1', 'prop-2'])).toEqual({ id: { in: ['prop-1'] } });
+  });
+});
@@ -0,0 +1,170 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { type db as prismaClient } from '~/server/db';
+import { auditedProcedure } from '~/server/api/utils/audit';
+
+// Authorization.
+//
+// Two kinds of role:
+// - Platform role (`user.role`): `ADMIN` users run the admin router across every organization.
+// - Organization role (`userOrganization.role`): `owner` > `manager` > `viewer`. A role also
+//   grants everything the roles below it can do. Memberships without a role are viewers.
+//
+// Organization procedures use `orgProcedure` (or `orgManagerProcedure`), which checks
+// membership once and adds the organization, the user's role and the properties they can
+// see to the context. Memberships flagged `propertyAccessRestricted` are limited to the
+// properties in the user's `userPropertyAccess` rows (none if there are no rows); everyone
+// else sees the whole portfolio.
+//
+// Both kinds of procedure are audited (see ~/server/api/utils/audit), denied calls included.
+
+export const PLATFORM_ADMIN_ROLE = 'ADMIN';
+
+// Lowest to highest
+export const organizationRoleSchema = z.enum(['viewer', 'manager', 'owner']);
+export type OrganizationRole = z.infer<typeof organizationRoleSchema>;
+
+// Check whether an organization role meets a minimum role
+export function hasOrganizationRole(role: OrganizationRole, minimumRole: OrganizationRole): boolean {
+  const roles = organizationRoleSchema.options;
+  return roles.indexOf(role) >= roles.indexOf(minimumRole);
+}
+
+// Read a membership's role, treating missing or unknown values as viewer
+export function parseOrganizationRole(role: string | null | undefined): OrganizationRole {
+  const parsed = organizationRoleSchema.safeParse(role?.toLowerCase());
+  return parsed.success ? parsed.data : 'viewer';
+}
+
+// Get the properties a member is limited to in an organization, or null for the whole portfolio
+export async function getAccessiblePropertyIds(
+  db: typeof prismaClient,
+  userId: string,
+  organizationId: string,
+  propertyAccessRestricted: boolean
+): Promise<string[] | null> {
+  if (!propertyAccessRestricted) {
+    return null;
+  }
+
+  const propertyAccess = await db.userPropertyAccess.findMany({
+    where: {
+      userId,
+      property: { organizationId },
+    },
+    select: { propertyId: true },
+  });
+
+  return propertyAccess.map(access => access.propertyId);
+}
+
+// Build an organization procedure for members with at least `minimumRole`.
+// Throws FORBIDDEN for non-members or a lower role. An unknown organization is FORBIDDEN too,
+// so callers can't tell which organization ids exist.
+function createOrganizationProcedure(minimumRole: OrganizationRole) {
+  return auditedProcedure
+    .input(z.object({
+      organizationId: z.string(),
+    }))
+    .use(async ({ ctx, input, next }) => {
+      const userId = ctx.session.user.id;
+
+      const [organization, membership] = await Promise.all([
+        ctx.db.organization.findUnique({
+          where: { id: input.organizationId },
+          select: {
+            id: true,
+            name: true,
+            marketId: true,
+            marketDataProvider: true,
+          },
+        }),
+        ctx.db.userOrganization.findFirst({
+          where: {
+            userId,
+            organizationId: input.organizationId,
+          },
+          select: {
+            role: true,
+            propertyAccessRestricted: true,
+          },
+        }),
+      ]);
+
+      if (organization) {
+        ctx.audit.organizationId = organization.id;
+      }
+
+      if (!organization || !membership) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Organization not found or access denied' });
+      }
+
+      const organizationRole = parseOrganizationRole(membership.role);
+      if (!hasOrganizationRole(organizationRole, minimumRole)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `This action requires the ${minimumRole} role` });
+      }
+
+      const accessiblePropertyIds = await getAccessiblePropertyIds(
+        ctx.db,
+        userId,
+        organization.id,
+        membership.propertyAccessRestricted
+      );
+
+      return next({
+        ctx: {
+          organization,
+          organizationRole,
+          accessiblePropertyIds,
+        },
+      });
+    });
+}
+
+// Procedure for any member of the organization in `input.organizationId`
+export const orgProcedure = createOrganizationProcedure('viewer');
+
+// Procedure for organization managers and owners
+export const orgManagerProcedure = createOrganizationProcedure('manager');
+
+// Prisma `property` filter limiting a query to the accessible properties (and to
+// `requestedPropertyIds` when given). Returns an empty filter for full access.
+export function accessiblePropertyFilter(accessiblePropertyIds: string[] | null, requestedPropertyIds?: string[]) {
+  if (accessiblePropertyIds === null) {
+    return requestedPropertyIds ? { id: { in: requestedPropertyIds } } : {};
+  }
+  const ids = requestedPropertyIds
+    ? requestedPropertyIds.filter(id => accessiblePropertyIds.includes(id))
+    : accessiblePropertyIds;
+  return { id: { in: ids } };
+}
+
+// Throw FORBIDDEN unless the user can see this property
+export function assertPropertyAccess(accessiblePropertyIds: string[] | null, propertyId: string) {
+  if (accessiblePropertyIds !== null && !accessiblePropertyIds.includes(propertyId)) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'You do not have access to this property' });
+  }
+}
+
+// Throw FORBIDDEN for users limited to some properties. For organization-wide figures
+// (SQL views, snapshots) that can't be narrowed to a subset of properties.
+export function assertFullPropertyAccess(accessiblePropertyIds: string[] | null) {
+  if (accessiblePropertyIds !== null) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Organization-wide analytics require access to every property' });
+  }
+}
+
+// Procedure for platform admins only. The role is read from the database rather than
+// the session so revoking it takes effect immediately.
+export const adminProcedure = auditedProcedure.use(async ({ ctx, next }) => {
+  const user = await ctx.db.user.findUnique({
+    where: { id: ctx.session.user.id },
+    select: { role: true },
+  });
+
+  if (user?.role !== PLATFORM_ADMIN_ROLE) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Admin access required' });
+  }
+
+  return next();
+});
@@ -0,0 +1,245 @@
+import { Prisma } from '@prisma/client';
+
+// Analytics response cache.
+//
+// Entries are keyed by procedure and parameters, plus the organization and its data
+// version for organization data. Bumping an organization's data version (when new
+// reservations sync in) orphans all of its entries at once; they simply expire.
+//
+// Each entry is fresh for `ttlSeconds`. With `staleWhileRevalidateSeconds`, an expired
+// entry is still served for that much longer while a single background reload refreshes it
+// (used for Key Data responses, which are slow and change rarely).
+//
+// Reservation writes invalidate their organizations automatically through the
+// `reservationCacheInvalidation` Prisma extension, applied to the client in `~/server/db`.
+//
+// The in-memory store is the default. Call `setCacheStore(createRedisCacheStore(client))`
+// at startup to share the cache between instances.
+
+export interface CacheEntry {
+  value: unknown; // Must survive a JSON round trip
+  freshUntil: number;
+  staleUntil: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+// The subset of a Redis client (ioredis / node-redis v4 legacy mode) the adapter needs
+export interface RedisCompatibleClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, mode: 'PX', milliseconds: number): Promise<unknown>;
+}
+
+export interface CacheOptions {
+  procedure: string;
+  params: unknown;
+  organizationId?: string; // Ties the entry to the organization's data version
+  ttlSeconds: number;
+  staleWhileRevalidateSeconds?: number;
+}
+
+const MEMORY_CACHE_MAX_ENTRIES = 1000;
+
+// In-memory store; evicts the oldest entries once full
+export function createMemoryCacheStore(maxEntries: number = MEMORY_CACHE_MAX_ENTRIES): CacheStore {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry && entry.staleUntil <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
+
+// Redis-compatible store; entries expire in Redis once they are no longer servable
+export function createRedisCacheStore(client: RedisCompatibleClient, prefix = 'analytics-cache:'): CacheStore {
+  return {
+    async get(key) {
+      const raw = await client.get(prefix + key);
+      return raw === null ? undefined : JSON.parse(raw) as CacheEntry;
+    },
+    async set(key, entry) {
+      const ttlMilliseconds = Math.max(1, entry.staleUntil - Date.now());
+      await client.set(prefix + key, JSON.stringify(entry), 'PX', ttlMilliseconds);
+    },
+  };
+}
+
+let cacheStore: CacheStore = createMemoryCacheStore();
+
+// Swap the backing store (e.g. for Redis)
+export function setCacheStore(store: CacheStore) {
+  cacheStore = store;
+}
+
+// Data versions outlive any cached entry; a year is plenty
+const DATA_VERSION_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Background reloads and concurrent misses in progress, so each key loads once at a time
+const inFlight = new Map<string, Promise<unknown>>();
+
+// Get an organization's current data version (0 until first invalidated)
+async function getDataVersion(organizationId: string): Promise<number> {
+  const entry = await cacheStore.get(`version:${organizationId}`);
+  return typeof entry?.value === 'number' ? entry.value : 0;
+}
+
+// Invalidate every cached analytics entry for an organization.
+// Call this whenever new or changed reservations are synced in.
+export async function invalidateOrganizationCache(organizationId: string) {
+  const now = Date.now();
+  await cacheStore.set(`version:${organizationId}`, {
+    value: now,
+    freshUntil: now + DATA_VERSION_TTL_MS,
+    staleUntil: now + DATA_VERSION_TTL_MS,
+  });
+}
+
+// Serialize params with sorted object keys so equal params always give the same key
+function stableStringify(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Load a value and store it, sharing the load with any concurrent caller for the same key
+function loadAndStore<T>(key: string, options: CacheOptions, load: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = (async () => {
+    try {
+      const value = await load();
+      const now = Date.now();
+      await cacheStore.set(key, {
+        value,
+        freshUntil: now + options.ttlSeconds * 1000,
+        staleUntil: now + (options.ttlSeconds + (options.staleWhileRevalidateSeconds ?? 0)) * 1000,
+      });
+      return value;
+    } finally {
+      inFlight.delete(key);
+    }
+  })();
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
+// Return a cached value, or load and cache it
+export async function withCache<T>(options: CacheOptions, load: () => Promise<T>): Promise<T> {
+  return (await withCacheStatus(options, load)).value;
+}
+
+// Same as `withCache`, also saying whether an expired (stale) value was served
+export async function withCacheStatus<T>(options: CacheOptions, load: () => Promise<T>): Promise<{ value: T; stale: boolean }> {
+  const scope = options.organizationId
+    ? `org:${options.organizationId}:v${await getDataVersion(options.organizationId)}`
+    : 'global';
+  const key = `${scope}:${options.procedure}:${stableStringify(options.params)}`;
+
+  const entry = await cacheStore.get(key);
+  const now = Date.now();
+
+  if (entry && entry.freshUntil > now) {
+    return { value: entry.value as T, stale: false };
+  }
+
+  if (entry && entry.staleUntil > now) {
+    // Serve the stale value and refresh it in the background
+    loadAndStore(key, options, load).catch(error => {
+      console.error('[Analytics Cache] Background refresh failed for:', options.procedure, error);
+    });
+    return { value: entry.value as T, stale: true };
+  }
+
+  return { value: await loadAndStore(key, options, load), stale: false };
+}
+
+const RESERVATION_WRITE_OPERATIONS = new Set(['create', 'createMany', 'update', 'updateMany', 'upsert', 'delete', 'deleteMany']);
+
+// Helper function to collect the property ids named in reservation write data
+function collectPropertyIds(data: unknown, propertyIds: Set<string>) {
+  for (const row of Array.isArray(data) ? data : [data]) {
+    if (row === null || typeof row !== 'object') continue;
+    const { propertyId, property } = row as { propertyId?: unknown; property?: { connect?: { id?: unknown } } };
+    if (typeof propertyId === 'string') propertyIds.add(propertyId);
+    if (typeof property?.connect?.id === 'string') propertyIds.add(property.connect.id);
+  }
+}
+
+// Prisma extension that invalidates the cached analytics of every organization whose
+// reservations a write touches: the rows it matches (looked up before the write, so deletes
+// and moves to another property are covered) plus the properties named in its data.
+// The reservation sync and any other write path go through the extended client.
+export const reservationCacheInvalidation = Prisma.defineExtension(client => client.$extends({
+  name: 'reservationCacheInvalidation',
+  query: {
+    wheelhouseReservation: {
+      async $allOperations({ operation, args, query }) {
+        if (!RESERVATION_WRITE_OPERATIONS.has(operation)) {
+          return query(args);
+        }
+
+        const writeArgs = args as { where?: object; data?: unknown; create?: unknown; update?: unknown };
+        const propertyIds = new Set<string>();
+
+        if (writeArgs.where) {
+          const existing = await client.wheelhouseReservation.findMany({
+            where: writeArgs.where,
+            select: { propertyId: true },
+            distinct: ['propertyId'],
+          });
+          existing.forEach(reservation => propertyIds.add(reservation.propertyId));
+        }
+        collectPropertyIds(writeArgs.data, propertyIds);
+        collectPropertyIds(writeArgs.create, propertyIds);
+        collectPropertyIds(writeArgs.update, propertyIds);
+
+        const result = await query(args);
+
+        if (propertyIds.size > 0) {
+          const organizations = await client.property.findMany({
+            where: { id: { in: Array.from(propertyIds) } },
+            select: { organizationId: true },
+            distinct: ['organizationId'],
+          });
+          await Promise.all(organizations.map(organization => invalidateOrganizationCache(organization.organizationId)));
+        }
+
+        return result;
+      },
+    },
+  },
+}));
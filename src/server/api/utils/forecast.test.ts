@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { forecastMonth, scoreForecast } from './forecast';
+
+const onTheBooks = { roomNights: 100, revenue: 20000 };
+
+describe('forecastMonth', () => {
+  it('adds the average pickup and spans the band across prior years', () => {
+    const forecast = forecastMonth(onTheBooks, [
+      { onTheBooks: { roomNights: 80, revenue: 16000 }, final: { roomNights: 120, revenue: 24000 } },
+      { onTheBooks: { roomNights: 90, revenue: 18000 }, final: { roomNights: 110, revenue: 22000 } },
+    ], 200);
+
+    expect(forecast.historyYears).toBe(2);
+    expect(forecast.roomNights).toBe(130);
+    expect(forecast.occupancy).toEqual({ forecast: 65, low: 60, high: 70 });
+  });
+
+  it('leaves the band open with a single year of history', () => {
+    const forecast = forecastMonth(onTheBooks, [
+      { onTheBooks: { roomNights: 80, revenue: 16000 }, final: { roomNights: 120, revenue: 24000 } },
+    ], 200);
+
+    expect(forecast.occupancy).toEqual({ forecast: 70, low: null, high: null });
+    expect(scoreForecast(forecast, { occupancy: 70, adr: 200, revpar: 140 }).withinBand.occupancy).toBeNull();
+  });
+
+  it('falls back to the on-the-books position without history', () => {
+    const forecast = forecastMonth(onTheBooks, [], 200);
+
+    expect(forecast.historyYears).toBe(0);
+    expect(forecast.occupancy).toEqual({ forecast: 50, low: null, high: null });
+  });
+});
@@ -0,0 +1,153 @@
+// Month-end forecasting: current on-the-books position plus the pickup that
+// historically arrived between the same lead time and month end.
+
+// Fewest prior years that give a meaningful band; with less history the bounds are left null
+export const MIN_BAND_HISTORY_YEARS = 2;
+
+export interface BookingPosition {
+  roomNights: number;
+  revenue: number;
+}
+
+// One prior year's booking position at the same lead time, and how that month finished
+export interface PickupObservation {
+  onTheBooks: BookingPosition;
+  final: BookingPosition;
+}
+
+export interface ForecastBand {
+  forecast: number | null;
+  low: number | null; // Null when fewer than MIN_BAND_HISTORY_YEARS years contributed
+  high: number | null;
+}
+
+export interface MonthForecast {
+  roomNights: number;
+  revenue: number;
+  occupancy: ForecastBand;
+  adr: ForecastBand;
+  revpar: ForecastBand;
+  historyYears: number;
+}
+
+export interface ActualMetrics {
+  occupancy: number | null;
+  adr: number | null;
+  revpar: number | null;
+}
+
+// Helper function to turn a booking position into occupancy/ADR/RevPAR
+function positionToMetrics(position: BookingPosition, availableNights: number): ActualMetrics {
+  return {
+    occupancy: availableNights > 0 ? (position.roomNights / availableNights) * 100 : null,
+    adr: position.roomNights > 0 ? position.revenue / position.roomNights : null,
+    revpar: availableNights > 0 ? position.revenue / availableNights : null,
+  };
+}
+
+// Helper function to build a band from the expected value and the per-year scenarios.
+// One scenario (or none) says nothing about the spread, so the bounds stay null rather
+// than collapsing onto the forecast.
+function toBand(forecast: number | null, scenarios: Array<number | null>): ForecastBand {
+  const values = scenarios.filter((value): value is number => value !== null);
+  if (values.length < MIN_BAND_HISTORY_YEARS) {
+    return { forecast, low: null, high: null };
+  }
+  return {
+    forecast,
+    low: Math.min(...values),
+    high: Math.max(...values),
+  };
+}
+
+// Forecast a month using additive pickup averaged across prior years.
+// Each prior year also produces a scenario (on-the-books + that year's pickup);
+// the band spans the lowest and highest scenario, given at least two years of history.
+export function forecastMonth(
+  onTheBooks: BookingPosition,
+  history: PickupObservation[],
+  availableNights: number
+): MonthForecast {
+  // Pickup is never negative: nights can't be un-booked in the on-the-books history
+  const pickups = history.map(observation => ({
+    roomNights: Math.max(0, observation.final.roomNights - observation.onTheBooks.roomNights),
+    revenue: Math.max(0, observation.final.revenue - observation.onTheBooks.revenue),
+  }));
+
+  // Can't sell more nights than the portfolio has available
+  const applyPickup = (pickup: BookingPosition): BookingPosition => {
+    const roomNights = Math.min(availableNights, onTheBooks.roomNights + pickup.roomNights);
+    const addedNights = roomNights - onTheBooks.roomNights;
+    const revenueShare = pickup.roomNights > 0 ? addedNights / pickup.roomNights : 1;
+    return {
+      roomNights,
+      revenue: onTheBooks.revenue + pickup.revenue * revenueShare,
+    };
+  };
+
+  const averagePickup = pickups.length > 0
+    ? {
+        roomNights: pickups.reduce((sum, pickup) => sum + pickup.roomNights, 0) / pickups.length,
+        revenue: pickups.reduce((sum, pickup) => sum + pickup.revenue, 0) / pickups.length,
+      }
+    : { roomNights: 0, revenue: 0 };
+
+  const expected = applyPickup(averagePickup);
+  const expectedMetrics = positionToMetrics(expected, availableNights);
+  const scenarioMetrics = pickups.map(pickup => positionToMetrics(applyPickup(pickup), availableNights));
+
+  return {
+    roomNights: expected.roomNights,
+    revenue: expected.revenue,
+    occupancy: toBand(expectedMetrics.occupancy, scenarioMetrics.map(metrics => metrics.occupancy)),
+    adr: toBand(expectedMetrics.adr, scenarioMetrics.map(metrics => metrics.adr)),
+    revpar: toBand(expectedMetrics.revpar, scenarioMetrics.map(metrics => metrics.revpar)),
+    historyYears: history.length,
+  };
+}
+
+// Score a past forecast against what actually happened
+export function scoreForecast(forecast: MonthForecast, actual: ActualMetrics) {
+  const error = (band: ForecastBand, actualValue: number | null) =>
+    band.forecast !== null && actualValue !== null ? band.forecast - actualValue : null;
+  const withinBand = (band: ForecastBand, actualValue: number | null) =>
+    band.low !== null && band.high !== null && actualValue !== null
+      ? actualValue >= band.low && actualValue <= band.high
+      : null;
+
+  return {
+    error: {
+      occupancy: error(forecast.occupancy, actual.occupancy),
+      adr: error(forecast.adr, actual.adr),
+      revpar: error(forecast.revpar, actual.revpar),
+      revparPercentage: forecast.revpar.forecast !== null && actual.revpar
+        ? ((forecast.revpar.forecast - actual.revpar) / actual.revpar) * 100
+        : null,
+    },
+    withinBand: {
+      occupancy: withinBand(forecast.occupancy, actual.occupancy),
+      revpar: withinBand(forecast.revpar, actual.revpar),
+    },
+  };
+}
+
+// Summarise backtest accuracy across months
+export function summarizeBacktest(scores: Array<ReturnType<typeof scoreForecast>>) {
+  const mean = (values: Array<number | null>) => {
+    const present = values.filter((value): value is number => value !== null);
+    return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+  };
+  const hitRate = (values: Array<boolean | null>) => {
+    const present = values.filter((value): value is boolean => value !== null);
+    return present.length > 0 ? (present.filter(Boolean).length / present.length) * 100 : null;
+  };
+
+  return {
+    monthsScored: scores.length,
+    meanAbsoluteOccupancyError: mean(scores.map(score => score.error.occupancy === null ? null : Math.abs(score.error.occupancy))),
+    meanAbsoluteAdrError: mean(scores.map(score => score.error.adr === null ? null : Math.abs(score.error.adr))),
+    revparMape: mean(scores.map(score => score.error.revparPercentage === null ? null : Math.abs(score.error.revparPercentage))),
+    occupancyBandHitRate: hitRate(scores.map(score => score.withinBand.occupancy)),
+    revparBandHitRate: hitRate(scores.map(score => score.withinBand.revpar)),
+  };
+}
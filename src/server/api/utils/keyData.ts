@@ -0,0 +1,155 @@
+import axios from 'axios';
+import { type z } from 'zod';
+import { env } from '~/env';
+import { withCacheStatus } from '~/server/api/utils/cache';
+
+// Key Data API client.
+//
+// Requests are retried with exponential backoff on network errors, 5xx and 429
+// (honouring Retry-After), within an overall deadline so a slow provider can't hold a
+// dashboard load for minutes. After repeated failures a circuit breaker stops calling
+// Key Data for a cool-down period so a degraded provider doesn't slow every dashboard.
+// Responses are cached (see ~/server/api/utils/cache) and can be validated with zod
+// before they are cached or used.
+
+// Market data API client setup
+const keyDataApiClient = axios.create({
+  baseURL: env.KEY_DATA_API_BASE_URL || 'https://api.keydata.com',
+  headers: {
+    'Authorization': `Bearer ${env.KEY_DATA_API_KEY || ''}`,
+    'Content-Type': 'application/json'
+  },
+});
+
+// Each attempt gets at most REQUEST_TIMEOUT_MS, and all attempts plus backoff together
+// at most REQUEST_DEADLINE_MS
+const REQUEST_TIMEOUT_MS = 8000;
+const REQUEST_DEADLINE_MS = 20000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10000;
+const MAX_RETRY_AFTER_MS = 10000;
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60000;
+
+// Market data changes rarely, so a stale response is served while a fresh one loads
+const KEY_DATA_CACHE_TTL_SECONDS = 6 * 60 * 60;
+const KEY_DATA_STALE_WHILE_REVALIDATE_SECONDS = 24 * 60 * 60;
+
+export type KeyDataFailureReason = 'circuit_open' | 'rate_limited' | 'request_failed' | 'invalid_response';
+
+export class KeyDataError extends Error {
+  constructor(message: string, public readonly reason: KeyDataFailureReason) {
+    super(message);
+    this.name = 'KeyDataError';
+  }
+}
+
+// Circuit breaker state (per server instance)
+let consecutiveFailures = 0;
+let circuitOpenUntil = 0;
+
+function recordSuccess() {
+  consecutiveFailures = 0;
+  circuitOpenUntil = 0;
+}
+
+function recordFailure() {
+  consecutiveFailures++;
+  if (consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuitOpenUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+    console.error(`[Key Data] Circuit opened after ${consecutiveFailures} consecutive failures`);
+  }
+}
+
+const sleep = (milliseconds: number) => new Promise(resolve => setTimeout(resolve, milliseconds));
+
+// Parse a Retry-After header (seconds or an HTTP date) into milliseconds
+function parseRetryAfter(header: unknown): number | null {
+  if (typeof header !== 'string') return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// GET from Key Data with retries, rate-limit handling and the circuit breaker
+async function requestWithRetry<T>(path: string, params: Record<string, string | boolean>): Promise<T> {
+  if (Date.now() < circuitOpenUntil) {
+    throw new KeyDataError('Key Data circuit is open; skipping request', 'circuit_open');
+  }
+
+  const deadline = Date.now() + REQUEST_DEADLINE_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await keyDataApiClient.get<T>(path, {
+        params,
+        timeout: Math.max(1, Math.min(REQUEST_TIMEOUT_MS, deadline - Date.now())),
+      });
+      recordSuccess();
+      return response.data;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      // Network errors, timeouts, 5xx and 429 are worth retrying; other 4xx are not
+      const retryable = status === undefined || status === 429 || status >= 500;
+
+      if (!retryable) {
+        throw new KeyDataError(`Key Data request failed with status ${status}`, 'request_failed');
+      }
+
+      if (attempt >= MAX_ATTEMPTS) {
+        recordFailure();
+        throw status === 429
+          ? new KeyDataError('Key Data rate limit exceeded', 'rate_limited')
+          : new KeyDataError(`Key Data request failed after ${attempt} attempts`, 'request_failed');
+      }
+
+      // Respect Retry-After on 429, otherwise back off exponentially with jitter
+      const retryAfter = status === 429 && axios.isAxiosError(error)
+        ? parseRetryAfter(error.response?.headers?.['retry-after'])
+        : null;
+      const delay = retryAfter !== null
+        ? Math.min(retryAfter, MAX_RETRY_AFTER_MS)
+        : Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+
+      // Give up rather than retry past the deadline
+      if (Date.now() + delay >= deadline) {
+        recordFailure();
+        throw status === 429
+          ? new KeyDataError('Key Data rate limit exceeded', 'rate_limited')
+          : new KeyDataError(`Key Data request did not succeed within ${REQUEST_DEADLINE_MS / 1000}s`, 'request_failed');
+      }
+
+      console.log(`[Key Data] ${path} failed (status ${status ?? 'network error'}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay);
+    }
+  }
+}
+
+// Fetch from Key Data through the cache. When a schema is given the response is
+// validated before it is cached. `stale` is true when an expired response was served.
+export async function fetchKeyData<T>(
+  path: string,
+  params: Record<string, string | boolean>,
+  schema?: z.ZodType<T>
+): Promise<{ data: T; stale: boolean }> {
+  const { value, stale } = await withCacheStatus({
+    procedure: `keyData:${path}`,
+    params,
+    ttlSeconds: KEY_DATA_CACHE_TTL_SECONDS,
+    staleWhileRevalidateSeconds: KEY_DATA_STALE_WHILE_REVALIDATE_SECONDS,
+  }, async () => {
+    const data = await requestWithRetry<T>(path, params);
+    if (!schema) return data;
+
+    const parsed = schema.safeParse(data);
+    if (!parsed.success) {
+      console.error('[Key Data] Unexpected response from', path, parsed.error.flatten());
+      throw new KeyDataError('Market data provider returned an unexpected response', 'invalid_response');
+    }
+    return parsed.data;
+  });
+
+  return { data: value, stale };
+}
@@ -0,0 +1,192 @@
+import { readFile } from 'fs/promises';
+import { format } from 'date-fns';
+import { z } from 'zod';
+import { env } from '~/env';
+import { fetchKeyData } from '~/server/api/utils/keyData';
+
+// Market data providers.
+//
+// Analytics only needs monthly market ADR, occupancy and RevPAR. Each vendor (Key Data,
+// AirDNA, PriceLabs-style feeds, CSV uploads) implements `MarketDataProvider` and is
+// registered in `marketDataProviders`. The provider is chosen per organization
+// (`organization.marketDataProvider`), falling back to `MARKET_DATA_PROVIDER`, then Key Data.
+
+export interface MarketMonthlyPerformance {
+  month: string; // yyyy-MM
+  adr: number | null;
+  occupancy: number | null;
+  revpar: number | null;
+}
+
+export interface MarketDataProvider {
+  name: string;
+  // Monthly performance for every month between the two dates that the provider has data for
+  getMonthlyPerformance(marketId: string, startDate: Date, endDate: Date): Promise<{
+    months: MarketMonthlyPerformance[];
+    stale: boolean; // Served from an expired cache entry
+  }>;
+}
+
+// Response schema for the Key Data market performance breakdown
+const keyDataMarketBreakdownResponseSchema = z.object({
+  marketId: z.string(),
+  breakdown: z.array(z.object({
+    date: z.string(),
+    adr: z.number(),
+    occupancy: z.number(),
+    revPar: z.number(),
+    revenue: z.number().optional(),
+    roomNights: z.number().optional(),
+    availableListings: z.number().optional(),
+  })),
+});
+
+type KeyDataMarketBreakdownResponse = z.infer<typeof keyDataMarketBreakdownResponseSchema>;
+
+// Helper function to average a value weighted by volume. Falls back to a plain mean when
+// any row lacks its weight, since mixing weighted and unweighted rows would skew the result.
+function weightedAverage<T>(rows: T[], valueOf: (row: T) => number, weightOf: (row: T) => number | undefined): number | null {
+  if (rows.length === 0) return null;
+
+  const weights = rows.map(weightOf);
+  if (weights.every((weight): weight is number => weight !== undefined)) {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight > 0) {
+      return rows.reduce((sum, row, index) => sum + valueOf(row) * weights[index], 0) / totalWeight;
+    }
+  }
+
+  return rows.reduce((sum, row) => sum + valueOf(row), 0) / rows.length;
+}
+
+// Key Data: `/v2/markets/{id}/performance/breakdown`, aggregated per month.
+// Breakdown rows (days or sub-markets) carry different volumes, so ADR is revenue over
+// room nights (room-night weighted) and occupancy/RevPAR are weighted by available listings.
+export const keyDataMarketDataProvider: MarketDataProvider = {
+  name: 'keydata',
+  async getMonthlyPerformance(marketId, startDate, endDate) {
+    const { data, stale } = await fetchKeyData<KeyDataMarketBreakdownResponse>(
+      `/v2/markets/${marketId}/performance/breakdown`,
+      {
+        start_date: format(startDate, 'yyyy-MM-dd'),
+        end_date: format(endDate, 'yyyy-MM-dd'),
+        aggregation: 'monthly',
+      },
+      keyDataMarketBreakdownResponseSchema
+    );
+
+    // Collect the breakdown rows for each month (using the standard revPar field)
+    const rowsByMonth = new Map<string, KeyDataMarketBreakdownResponse['breakdown']>();
+    for (const item of data.breakdown) {
+      const monthKey = format(new Date(item.date), 'yyyy-MM');
+      const monthRows = rowsByMonth.get(monthKey) ?? [];
+      monthRows.push(item);
+      rowsByMonth.set(monthKey, monthRows);
+    }
+
+    const months = Array.from(rowsByMonth.entries()).map(([month, rows]) => {
+      const totalRoomNights = rows.reduce((sum, row) => sum + (row.roomNights ?? 0), 0);
+      const hasRevenue = rows.every(row => row.revenue !== undefined && row.roomNights !== undefined);
+
+      return {
+        month,
+        adr: hasRevenue && totalRoomNights > 0
+          ? rows.reduce((sum, row) => sum + (row.revenue ?? 0), 0) / totalRoomNights
+          : weightedAverage(rows, row => row.adr, row => row.roomNights),
+        occupancy: weightedAverage(rows, row => row.occupancy, row => row.availableListings),
+        revpar: weightedAverage(rows, row => row.revPar, row => row.availableListings),
+      };
+    });
+
+    return { months, stale };
+  },
+};
+
+// Fixture rows: one market-month each. CSV files need a header row with these columns
+// (plain comma-separated values, no quoting); empty cells mean no data.
+const fixtureRowSchema = z.object({
+  marketId: z.string(),
+  month: z.string().regex(/^\d{4}-\d{2}$/), // yyyy-MM
+  adr: z.coerce.number().nullable(),
+  occupancy: z.coerce.number().nullable(),
+  revpar: z.coerce.number().nullable(),
+});
+
+type FixtureRow = z.infer<typeof fixtureRowSchema>;
+
+// Helper function to parse a simple CSV file into objects keyed by the header row
+function parseCsv(content: string): Array<Record<string, string | null>> {
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  const [header, ...rows] = lines;
+  if (!header) return [];
+
+  const columns = header.split(',').map(column => column.trim());
+  return rows.map(line => {
+    const cells = line.split(',');
+    return Object.fromEntries(columns.map((column, index) => {
+      const cell = cells[index]?.trim() ?? '';
+      return [column, cell === '' ? null : cell];
+    }));
+  });
+}
+
+// File-backed provider for tests and offline development (`.json` array or `.csv`)
+export function createFixtureMarketDataProvider(filePath: string): MarketDataProvider {
+  let rowsPromise: Promise<FixtureRow[]> | null = null;
+
+  const loadRows = async () => {
+    const content = await readFile(filePath, 'utf8');
+    const raw: unknown = filePath.toLowerCase().endsWith('.csv') ? parseCsv(content) : JSON.parse(content);
+    return z.array(fixtureRowSchema).parse(raw);
+  };
+
+  return {
+    name: 'fixture',
+    async getMonthlyPerformance(marketId, startDate, endDate) {
+      // Read the file once per process; retry on the next call if it failed
+      rowsPromise ??= loadRows().catch(error => {
+        rowsPromise = null;
+        throw error;
+      });
+      const rows = await rowsPromise;
+
+      const firstMonth = format(startDate, 'yyyy-MM');
+      const lastMonth = format(endDate, 'yyyy-MM');
+      const months = rows
+        .filter(row => row.marketId === marketId && row.month >= firstMonth && row.month <= lastMonth)
+        .map(({ month, adr, occupancy, revpar }) => ({ month, adr, occupancy, revpar }));
+
+      return { months, stale: false };
+    },
+  };
+}
+
+// Registered providers by name
+const marketDataProviders: Record<string, () => MarketDataProvider> = {
+  keydata: () => keyDataMarketDataProvider,
+  fixture: () => {
+    if (!env.MARKET_DATA_FIXTURE_PATH) {
+      throw new Error("MARKET_DATA_FIXTURE_PATH must be set to use the fixture market data provider");
+    }
+    return createFixtureMarketDataProvider(env.MARKET_DATA_FIXTURE_PATH);
+  },
+};
+
+const providerInstances = new Map<string, MarketDataProvider>();
+
+// Get the market data provider for an organization (its own setting, else the deployment default)
+export function getMarketDataProvider(providerName?: string | null): MarketDataProvider {
+  const name = providerName || env.MARKET_DATA_PROVIDER || 'keydata';
+  const createProvider = marketDataProviders[name];
+
+  if (!createProvider) {
+    throw new Error(`Unknown market data provider: ${name}`);
+  }
+
+  let provider = providerInstances.get(name);
+  if (!provider) {
+    provider = createProvider();
+    providerInstances.set(name, provider);
+  }
+  return provider;
+}
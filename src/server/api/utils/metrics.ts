@@ -0,0 +1,492 @@
+import { addDays, differenceInDays, endOfMonth, format, isAfter, isBefore, startOfDay, subYears } from 'date-fns';
+import { z } from 'zod';
+import { type Decimal } from '@prisma/client/runtime/library';
+import { type db as prismaClient } from '~/server/db';
+
+// Shared analytics metrics engine.
+//
+// Every analytics procedure computes ADR, occupancy and RevPAR through this module
+// so the numbers cannot drift apart again (see DATA_ACCURACY_BUG_FIX_SUMMARY.md).
+//
+// Definitions:
+// - Revenue depends on the requested revenue basis (see `RevenueBasis`). A reservation
+//   missing the field its basis needs is never silently priced from another field:
+//   its nights still count as occupied, it is left out of ADR, adds nothing to
+//   revenue/RevPAR, and is counted in `missingRevenueCount`.
+// - A reservation's revenue is spread evenly across its nights, and each night is
+//   attributed to the calendar date it starts on. A stay from June 29 to July 2
+//   contributes two nights (and 2/3 of its revenue) to June and one to July.
+// - Available nights are counted per property per night (see `calculatePeriodCapacity`):
+//   a property only contributes the nights between its activation and deactivation,
+//   minus nights held by owner blocks or maintenance holds.
+// - ADR = revenue / priced occupied nights, occupancy = occupied / available nights * 100,
+//   RevPAR = revenue / available nights.
+
+// Revenue bases:
+// - room:  `nightlySubtotal` - room revenue only, excluding taxes and fees (default)
+// - gross: `totalPrice` - everything the guest paid, including taxes and fees
+// - net:   `totalPrice` minus `channelCommission` (a missing commission means a direct booking)
+export const revenueBasisSchema = z.enum(['room', 'gross', 'net']).default('room');
+export type RevenueBasis = z.infer<typeof revenueBasisSchema>;
+
+// Prisma returns money columns as Decimal; plain numbers are accepted too
+export type PriceValue = Decimal | number | null;
+
+export interface MetricsReservation {
+  startDate: Date;
+  endDate: Date;
+  totalPrice: PriceValue;
+  nightlySubtotal: PriceValue;
+  channelCommission?: PriceValue;
+}
+
+export interface PeriodMetrics {
+  adr: number | null;
+  occupancy: number | null;
+  revpar: number | null;
+  totalNights: number;
+  totalRevenue: number;
+  totalAvailableNights: number;
+  ownerNights: number;
+  blockedNights: number;
+  missingRevenueCount: number;
+}
+
+// A property's live window. `activatedAt` is its first sellable night and `deactivatedAt`
+// the first night it no longer is; null means open-ended on that side.
+export interface CapacityProperty {
+  id: string;
+  activatedAt: Date | null;
+  deactivatedAt: Date | null;
+}
+
+// A blocked stretch of nights (`endDate` exclusive, like a reservation checkout)
+export interface CapacityBlock {
+  propertyId: string;
+  startDate: Date;
+  endDate: Date;
+  blockType: string; // 'owner' | 'maintenance'
+}
+
+// Everything needed to work out capacity for any period within the loaded range
+export interface PortfolioCapacity {
+  properties: CapacityProperty[];
+  blocks: CapacityBlock[];
+}
+
+export interface PeriodCapacity {
+  availableNights: number;
+  ownerNights: number; // Owner stays, reported separately and excluded from available nights
+  blockedNights: number; // Maintenance holds and any other non-owner blocks
+}
+
+// Get a reservation's revenue under a revenue basis (null when the field it needs is missing)
+export function getReservationRevenue(
+  reservation: Pick<MetricsReservation, 'totalPrice' | 'nightlySubtotal' | 'channelCommission'>,
+  revenueBasis: RevenueBasis
+): number | null {
+  switch (revenueBasis) {
+    case 'room':
+      return reservation.nightlySubtotal === null || reservation.nightlySubtotal === undefined
+        ? null
+        : Number(reservation.nightlySubtotal);
+    case 'gross':
+      return reservation.totalPrice === null || reservation.totalPrice === undefined
+        ? null
+        : Number(reservation.totalPrice);
+    case 'net':
+      return reservation.totalPrice === null || reservation.totalPrice === undefined
+        ? null
+        : Number(reservation.totalPrice) - Number(reservation.channelCommission ?? 0);
+  }
+}
+
+// Calculate metrics for a set of reservations within a month.
+// `monthEnd` is inclusive (as returned by `endOfMonth`), so the last night of the month counts.
+// `capacity` is normally from `calculatePeriodCapacity`; a plain property count assumes every
+// property was sellable every night and is only meant for revenue/night breakdowns.
+export function calculateMonthMetrics(
+  reservations: MetricsReservation[],
+  monthStart: Date,
+  monthEnd: Date,
+  capacity: PeriodCapacity | number,
+  revenueBasis: RevenueBasis
+): PeriodMetrics {
+  const periodStart = startOfDay(monthStart);
+  const periodEnd = addDays(startOfDay(monthEnd), 1);
+
+  let totalNights = 0;
+  let pricedNights = 0;
+  let totalRevenue = 0;
+  let missingRevenueCount = 0;
+
+  // Calculate nights and revenue for each reservation
+  for (const reservation of reservations) {
+    const checkIn = startOfDay(reservation.startDate);
+    const checkOut = startOfDay(reservation.endDate);
+
+    // Calculate overlap with the month
+    const overlapStart = isAfter(checkIn, periodStart) ? checkIn : periodStart;
+    const overlapEnd = isBefore(checkOut, periodEnd) ? checkOut : periodEnd;
+    const nightsInMonth = differenceInDays(overlapEnd, overlapStart);
+
+    // Only process if there's actual overlap
+    if (nightsInMonth > 0) {
+      totalNights += nightsInMonth;
+
+      const revenue = getReservationRevenue(reservation, revenueBasis);
+      if (revenue === null) {
+        missingRevenueCount++;
+        continue;
+      }
+
+      // Allocate revenue proportionally to the nights in this month
+      const lengthOfStay = differenceInDays(checkOut, checkIn);
+      pricedNights += nightsInMonth;
+      totalRevenue += (revenue / lengthOfStay) * nightsInMonth;
+    }
+  }
+
+  // Calculate total available nights for all properties
+  const { availableNights: totalAvailableNights, ownerNights, blockedNights } = typeof capacity === 'number'
+    ? { availableNights: capacity * differenceInDays(periodEnd, periodStart), ownerNights: 0, blockedNights: 0 }
+    : capacity;
+
+  return {
+    adr: pricedNights > 0 ? totalRevenue / pricedNights : null,
+    occupancy: totalAvailableNights > 0 ? (totalNights / totalAvailableNights) * 100 : null,
+    revpar: totalAvailableNights > 0 ? totalRevenue / totalAvailableNights : null,
+    totalNights,
+    totalRevenue,
+    totalAvailableNights,
+    ownerNights,
+    blockedNights,
+    missingRevenueCount,
+  };
+}
+
+// Calculate sellable capacity for a period (`periodEnd` inclusive), optionally for a subset of properties
+export function calculatePeriodCapacity(
+  capacity: PortfolioCapacity,
+  periodStart: Date,
+  periodEnd: Date,
+  propertyIds?: string[]
+): PeriodCapacity {
+  const rangeStart = startOfDay(periodStart);
+  const rangeEnd = addDays(startOfDay(periodEnd), 1);
+  const includedIds = propertyIds ? new Set(propertyIds) : null;
+
+  const blocksByProperty = new Map<string, CapacityBlock[]>();
+  for (const block of capacity.blocks) {
+    const propertyBlocks = blocksByProperty.get(block.propertyId) ?? [];
+    propertyBlocks.push(block);
+    blocksByProperty.set(block.propertyId, propertyBlocks);
+  }
+
+  let availableNights = 0;
+  let ownerNights = 0;
+  let blockedNights = 0;
+
+  for (const property of capacity.properties) {
+    if (includedIds && !includedIds.has(property.id)) continue;
+
+    // Clip the period to the property's live window
+    const liveStart = property.activatedAt && isAfter(startOfDay(property.activatedAt), rangeStart)
+      ? startOfDay(property.activatedAt)
+      : rangeStart;
+    const liveEnd = property.deactivatedAt && isBefore(startOfDay(property.deactivatedAt), rangeEnd)
+      ? startOfDay(property.deactivatedAt)
+      : rangeEnd;
+    const liveNights = differenceInDays(liveEnd, liveStart);
+    if (liveNights <= 0) continue;
+
+    // Overlapping blocks only remove a night once; an owner stay wins over a maintenance hold
+    const blockedDates = new Map<string, boolean>();
+    for (const block of blocksByProperty.get(property.id) ?? []) {
+      const blockStart = isAfter(startOfDay(block.startDate), liveStart) ? startOfDay(block.startDate) : liveStart;
+      const blockEnd = isBefore(startOfDay(block.endDate), liveEnd) ? startOfDay(block.endDate) : liveEnd;
+      for (let night = blockStart; isBefore(night, blockEnd); night = addDays(night, 1)) {
+        const dateKey = format(night, 'yyyy-MM-dd');
+        blockedDates.set(dateKey, blockedDates.get(dateKey) === true || block.blockType === 'owner');
+      }
+    }
+
+    for (const isOwnerStay of blockedDates.values()) {
+      if (isOwnerStay) {
+        ownerNights++;
+      } else {
+        blockedNights++;
+      }
+    }
+    availableNights += liveNights - blockedDates.size;
+  }
+
+  return { availableNights, ownerNights, blockedNights };
+}
+
+// Check whether a property was live for every night of a period (`periodEnd` inclusive)
+export function isLiveThroughout(property: CapacityProperty, periodStart: Date, periodEnd: Date): boolean {
+  return (property.activatedAt === null || !isAfter(startOfDay(property.activatedAt), startOfDay(periodStart))) &&
+    (property.deactivatedAt === null || isAfter(startOfDay(property.deactivatedAt), startOfDay(periodEnd)));
+}
+
+// Check whether a property was live for at least one night of a period (`periodEnd` inclusive)
+export function isLiveDuring(property: CapacityProperty, periodStart: Date, periodEnd: Date): boolean {
+  return (property.activatedAt === null || !isAfter(startOfDay(property.activatedAt), startOfDay(periodEnd))) &&
+    (property.deactivatedAt === null || isAfter(startOfDay(property.deactivatedAt), startOfDay(periodStart)));
+}
+
+// Split a portfolio into same-store properties (live throughout both periods), new units
+// (live now but not throughout the comparison period) and churned units (live in the
+// comparison period but not throughout the current one)
+export function classifyPortfolioGrowth(
+  capacity: PortfolioCapacity,
+  current: { start: Date; end: Date },
+  comparison: { start: Date; end: Date }
+) {
+  const sameStorePropertyIds: string[] = [];
+  let newUnits = 0;
+  let churnedUnits = 0;
+
+  for (const property of capacity.properties) {
+    const liveThroughoutCurrent = isLiveThroughout(property, current.start, current.end);
+    const liveThroughoutComparison = isLiveThroughout(property, comparison.start, comparison.end);
+
+    if (liveThroughoutCurrent && liveThroughoutComparison) {
+      sameStorePropertyIds.push(property.id);
+      continue;
+    }
+    if (!liveThroughoutComparison && isLiveDuring(property, current.start, current.end)) {
+      newUnits++;
+    }
+    if (!liveThroughoutCurrent && isLiveDuring(property, comparison.start, comparison.end)) {
+      churnedUnits++;
+    }
+  }
+
+  return { sameStorePropertyIds, newUnits, churnedUnits };
+}
+
+// Prisma filter for properties that were live at any point in a range. Unlike `isActive: true`
+// this keeps properties deactivated since, so past periods are measured against the portfolio of the time.
+export function liveDuringRange(rangeStart: Date, rangeEnd: Date) {
+  return {
+    AND: [
+      { OR: [{ activatedAt: null }, { activatedAt: { lte: rangeEnd } }] },
+      { OR: [{ isActive: true }, { deactivatedAt: { gt: rangeStart } }] },
+    ],
+  };
+}
+
+// Load the owner blocks and maintenance holds needed to compute capacity over a range
+export async function loadPortfolioCapacity(
+  db: typeof prismaClient,
+  properties: CapacityProperty[],
+  rangeStart: Date,
+  rangeEnd: Date
+): Promise<PortfolioCapacity> {
+  const blocks = properties.length > 0
+    ? await db.propertyBlock.findMany({
+        where: {
+          propertyId: { in: properties.map(property => property.id) },
+          startDate: { lte: rangeEnd },
+          endDate: { gt: rangeStart },
+        },
+        select: {
+          propertyId: true,
+          startDate: true,
+          endDate: true,
+          blockType: true,
+        },
+      })
+    : [];
+
+  return { properties, blocks };
+}
+
+// Expand reservations into occupied units and revenue per night (keyed yyyy-MM-dd)
+export function expandReservationNights(
+  reservations: MetricsReservation[],
+  dates: Date[],
+  revenueBasis: RevenueBasis
+) {
+  const nights = new Map<string, { occupiedUnits: number; pricedUnits: number; revenue: number }>();
+  let missingRevenueCount = 0;
+  for (const date of dates) {
+    nights.set(format(date, 'yyyy-MM-dd'), { occupiedUnits: 0, pricedUnits: 0, revenue: 0 });
+  }
+
+  for (const reservation of reservations) {
+    const checkIn = startOfDay(reservation.startDate);
+    const checkOut = startOfDay(reservation.endDate);
+    const lengthOfStay = differenceInDays(checkOut, checkIn);
+    if (lengthOfStay <= 0) continue;
+
+    const revenue = getReservationRevenue(reservation, revenueBasis);
+    let inRange = false;
+    for (let night = checkIn; isBefore(night, checkOut); night = addDays(night, 1)) {
+      const dayData = nights.get(format(night, 'yyyy-MM-dd'));
+      if (dayData) {
+        inRange = true;
+        dayData.occupiedUnits += 1;
+        if (revenue !== null) {
+          dayData.pricedUnits += 1;
+          dayData.revenue += revenue / lengthOfStay;
+        }
+      }
+    }
+
+    if (inRange && revenue === null) {
+      missingRevenueCount++;
+    }
+  }
+
+  return { nights, missingRevenueCount };
+}
+
+// Fetch every non-cancelled reservation overlapping a month (any booking date).
+// Also works for a multi-month window: fetch once, then slice per month with `overlapsPeriod`
+// and per as-of date with `filterBookedBy` instead of querying each month/baseline separately.
+export async function getMonthReservations(
+  db: typeof prismaClient,
+  propertyIds: string[],
+  monthStart: Date,
+  monthEnd: Date
+) {
+  return db.wheelhouseReservation.findMany({
+    where: {
+      propertyId: { in: propertyIds },
+      status: { notIn: ['cancelled', 'declined'] },
+      OR: [
+        {
+          startDate: { gte: monthStart, lte: monthEnd }
+        },
+        {
+          endDate: { gte: monthStart, lte: monthEnd }
+        },
+        {
+          startDate: { lt: monthStart },
+          endDate: { gt: monthEnd }
+        }
+      ]
+    },
+    select: {
+      propertyId: true,
+      startDate: true,
+      endDate: true,
+      bookedAt: true,
+      totalPrice: true,
+      nightlySubtotal: true,
+      channelCommission: true,
+    }
+  });
+}
+
+// Fetch every reservation, whatever its status, that overlaps a range or was booked during it.
+// For booking-status reports (cancellations, declines); metrics use `getMonthReservations`.
+export async function getBookingActivity(
+  db: typeof prismaClient,
+  propertyIds: string[],
+  rangeStart: Date,
+  rangeEnd: Date
+) {
+  return db.wheelhouseReservation.findMany({
+    where: {
+      propertyId: { in: propertyIds },
+      OR: [
+        {
+          startDate: { lte: rangeEnd },
+          endDate: { gte: rangeStart },
+        },
+        {
+          bookedAt: { gte: rangeStart, lte: rangeEnd },
+        },
+      ],
+    },
+    select: {
+      propertyId: true,
+      startDate: true,
+      endDate: true,
+      bookedAt: true,
+      status: true,
+      totalPrice: true,
+      nightlySubtotal: true,
+      channelCommission: true,
+    },
+  });
+}
+
+// Check whether a reservation overlaps a period (`periodEnd` inclusive), matching the
+// start/end/spanning clauses used by the reservation queries
+export function overlapsPeriod(reservation: { startDate: Date; endDate: Date }, periodStart: Date, periodEnd: Date): boolean {
+  return !isAfter(reservation.startDate, periodEnd) && !isBefore(reservation.endDate, periodStart);
+}
+
+// Calculate each month's on-the-books metrics as of a date, and the same month last year
+// as of the same date last year (STLY). Returns one entry per month, in order.
+// Reservations for the whole window (first STLY month through the last month) are fetched
+// once and sliced per month, so the query count doesn't grow with the number of months.
+// (`capacity` must be loaded for a range covering that window)
+export async function calculateMonthsWithStly(
+  db: typeof prismaClient,
+  capacity: PortfolioCapacity,
+  months: Date[],
+  asOf: Date,
+  revenueBasis: RevenueBasis
+): Promise<Array<{ monthStart: Date; current: PeriodMetrics; stly: PeriodMetrics }>> {
+  if (months.length === 0) {
+    return [];
+  }
+
+  const propertyIds = capacity.properties.map(property => property.id);
+  const firstMonth = new Date(Math.min(...months.map(month => month.getTime())));
+  const lastMonth = new Date(Math.max(...months.map(month => month.getTime())));
+
+  const windowReservations = await getMonthReservations(db, propertyIds, subYears(firstMonth, 1), endOfMonth(lastMonth));
+  const bookedNow = filterBookedBy(windowReservations, asOf);
+  const bookedStly = filterBookedBy(windowReservations, subYears(asOf, 1));
+
+  return months.map(monthStart => {
+    const monthEnd = endOfMonth(monthStart);
+    const stlyMonthStart = subYears(monthStart, 1);
+    const stlyMonthEnd = endOfMonth(stlyMonthStart);
+
+    return {
+      monthStart,
+      current: calculateMonthMetrics(
+        bookedNow.filter(reservation => overlapsPeriod(reservation, monthStart, monthEnd)),
+        monthStart,
+        monthEnd,
+        calculatePeriodCapacity(capacity, monthStart, monthEnd),
+        revenueBasis
+      ),
+      stly: calculateMonthMetrics(
+        bookedStly.filter(reservation => overlapsPeriod(reservation, stlyMonthStart, stlyMonthEnd)),
+        stlyMonthStart,
+        stlyMonthEnd,
+        calculatePeriodCapacity(capacity, stlyMonthStart, stlyMonthEnd),
+        revenueBasis
+      ),
+    };
+  });
+}
+
+// Keep only reservations that were on the books at a given date
+export function filterBookedBy<T extends { bookedAt: Date | null }>(reservations: T[], asOf: Date): Array<T & { bookedAt: Date }> {
+  return reservations.filter((reservation): reservation is T & { bookedAt: Date } =>
+    reservation.bookedAt !== null && !isAfter(reservation.bookedAt, asOf)
+  );
+}
+
+// Calculate percentage change
+export function calculatePercentageChange(current: number | null, previous: number | null): number | null {
+  if (current === null || previous === null || previous === 0) {
+    return null;
+  }
+  return ((current - previous) / previous) * 100;
+}
+
+// Calculate the difference between two nullable metrics
+export function calculateDelta(current: number | null, baseline: number | null): number | null {
+  return current !== null && baseline !== null ? current - baseline : null;
+}
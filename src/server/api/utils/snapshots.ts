@@ -0,0 +1,190 @@
+import { addMonths, endOfMonth, format, startOfDay, startOfMonth, subDays } from 'date-fns';
+import { type db as prismaClient } from '~/server/db';
+import {
+  calculateMonthMetrics,
+  calculatePeriodCapacity,
+  filterBookedBy,
+  getMonthReservations,
+  liveDuringRange,
+  loadPortfolioCapacity,
+  revenueBasisSchema,
+  type RevenueBasis,
+} from '~/server/api/utils/metrics';
+
+// Nightly analytics snapshots.
+//
+// Reconstructing a past on-the-books position from `bookedAt <= date` can't see later
+// modifications, price changes or cancellations. Instead, every night we store each
+// stay month's on-the-books metrics (one row per revenue basis), and "as of" reports
+// read the latest snapshot taken on or before the requested date.
+
+// How many stay months (starting with the current one) each snapshot covers
+export const SNAPSHOT_MONTHS_AHEAD = 12;
+
+// How much older than the requested date a snapshot may be and still stand in for it.
+// A missed nightly run shouldn't let a "7d" pickup quietly compare against a weeks-old position.
+export const SNAPSHOT_MAX_AGE_DAYS = 2;
+
+export interface SnapshotMetrics {
+  snapshotDate: Date;
+  occupancy: number | null;
+  adr: number | null;
+  revpar: number | null;
+  roomNights: number;
+  revenue: number;
+  availableNights: number;
+  ownerNights: number;
+  missingRevenueCount: number;
+}
+
+// Capture today's on-the-books metrics for an organization's upcoming stay months.
+// Re-running on the same day overwrites that day's snapshot.
+export async function captureOrganizationSnapshot(
+  db: typeof prismaClient,
+  organizationId: string,
+  capturedAt: Date = new Date()
+) {
+  const snapshotDate = startOfDay(capturedAt);
+  const months: Date[] = [];
+  for (let i = 0; i < SNAPSHOT_MONTHS_AHEAD; i++) {
+    months.push(startOfMonth(addMonths(capturedAt, i)));
+  }
+  const rangeStart = months[0];
+  const rangeEnd = endOfMonth(months[months.length - 1]);
+
+  const properties = await db.property.findMany({
+    where: {
+      organizationId,
+      ...liveDuringRange(rangeStart, rangeEnd),
+    },
+    select: {
+      id: true,
+      activatedAt: true,
+      deactivatedAt: true,
+    },
+  });
+
+  if (properties.length === 0) {
+    return { organizationId, snapshotDate, rows: 0 };
+  }
+
+  const capacity = await loadPortfolioCapacity(db, properties, rangeStart, rangeEnd);
+  const propertyIds = properties.map(property => property.id);
+  let rows = 0;
+
+  for (const monthStart of months) {
+    const monthEnd = endOfMonth(monthStart);
+    const onTheBooks = filterBookedBy(
+      await getMonthReservations(db, propertyIds, monthStart, monthEnd),
+      capturedAt
+    );
+    const monthCapacity = calculatePeriodCapacity(capacity, monthStart, monthEnd);
+
+    for (const revenueBasis of revenueBasisSchema.removeDefault().options) {
+      const metrics = calculateMonthMetrics(onTheBooks, monthStart, monthEnd, monthCapacity, revenueBasis);
+      const values = {
+        occupancy: metrics.occupancy,
+        adr: metrics.adr,
+        revpar: metrics.revpar,
+        roomNights: metrics.totalNights,
+        revenue: metrics.totalRevenue,
+        availableNights: metrics.totalAvailableNights,
+        ownerNights: metrics.ownerNights,
+        missingRevenueCount: metrics.missingRevenueCount,
+      };
+
+      await db.analyticsSnapshot.upsert({
+        where: {
+          organizationId_stayMonth_snapshotDate_revenueBasis: {
+            organizationId,
+            stayMonth: monthStart,
+            snapshotDate,
+            revenueBasis,
+          },
+        },
+        create: {
+          organizationId,
+          stayMonth: monthStart,
+          snapshotDate,
+          revenueBasis,
+          ...values,
+        },
+        update: values,
+      });
+      rows++;
+    }
+  }
+
+  return { organizationId, snapshotDate, rows };
+}
+
+// Capture snapshots for every organization; one organization failing doesn't stop the rest.
+// Run once a night by `runNightlyJobs` (~/server/jobs/nightly).
+export async function captureAllOrganizationSnapshots(db: typeof prismaClient, capturedAt: Date = new Date()) {
+  const organizations = await db.organization.findMany({
+    select: { id: true },
+  });
+
+  const results: Array<{ organizationId: string; rows: number; error?: string }> = [];
+  for (const organization of organizations) {
+    try {
+      const result = await captureOrganizationSnapshot(db, organization.id, capturedAt);
+      results.push({ organizationId: organization.id, rows: result.rows });
+    } catch (error) {
+      console.error('[Analytics Snapshots] Capture failed for organization:', organization.id, error);
+      results.push({
+        organizationId: organization.id,
+        rows: 0,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  console.log('[Analytics Snapshots] Captured', results.filter(result => !result.error).length, 'of', organizations.length, 'organizations');
+  return results;
+}
+
+// Get the latest snapshot taken on or before `asOf` for each stay month (keyed yyyy-MM),
+// ignoring snapshots more than `maxAgeDays` older than `asOf` (null for no limit).
+// Months with no such snapshot are missing from the map; each entry carries its actual date.
+export async function getSnapshotsAsOf(
+  db: typeof prismaClient,
+  organizationId: string,
+  stayMonths: Date[],
+  asOf: Date,
+  revenueBasis: RevenueBasis,
+  maxAgeDays: number | null = SNAPSHOT_MAX_AGE_DAYS
+): Promise<Map<string, SnapshotMetrics>> {
+  const snapshotDay = startOfDay(asOf);
+  const snapshots = await db.analyticsSnapshot.findMany({
+    where: {
+      organizationId,
+      revenueBasis,
+      stayMonth: { in: stayMonths.map(month => startOfMonth(month)) },
+      snapshotDate: {
+        lte: snapshotDay,
+        ...(maxAgeDays !== null ? { gte: subDays(snapshotDay, maxAgeDays) } : {}),
+      },
+    },
+    // Newest first, keeping only the first row per stay month
+    orderBy: { snapshotDate: 'desc' },
+    distinct: ['stayMonth'],
+  });
+
+  const snapshotsByMonth = new Map<string, SnapshotMetrics>();
+  for (const snapshot of snapshots) {
+    snapshotsByMonth.set(format(snapshot.stayMonth, 'yyyy-MM'), {
+      snapshotDate: snapshot.snapshotDate,
+      occupancy: snapshot.occupancy,
+      adr: snapshot.adr,
+      revpar: snapshot.revpar,
+      roomNights: snapshot.roomNights,
+      revenue: snapshot.revenue,
+      availableNights: snapshot.availableNights,
+      ownerNights: snapshot.ownerNights,
+      missingRevenueCount: snapshot.missingRevenueCount,
+    });
+  }
+
+  return snapshotsByMonth;
+}
@@ -0,0 +1,20 @@
+import { PrismaClient } from "@prisma/client";
+
+import { env } from "~/env";
+import { reservationCacheInvalidation } from "~/server/api/utils/cache";
+
+// Every write path (the reservation sync included) goes through this client, so the cache
+// extension sees each reservation write and invalidates the organizations it touches
+const createPrismaClient = () =>
+  new PrismaClient({
+    log:
+      env.NODE_ENV === "development" ? ["query", "error", "warn"] : ["error"],
+  }).$extends(reservationCacheInvalidation);
+
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined;
+};
+
+export const db = globalForPrisma.prisma ?? createPrismaClient();
+
+if (env.NODE_ENV !== "production") globalForPrisma.prisma = db;
@@ -0,0 +1,30 @@
+import { subDays } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+import { AUDIT_LOG_RETENTION_DAYS } from '~/server/api/utils/audit';
+import { createFakeDb } from '~/test/fakeDb';
+import { runNightlyJobs } from './nightly';
+
+type JobsDb = Parameters<typeof runNightlyJobs>[0];
+
+describe('runNightlyJobs', () => {
+  it('captures snapshots and purges expired audit entries', async () => {
+    const db = createFakeDb();
+    const now = new Date(2026, 9, 18);
+
+    await expect(runNightlyJobs(db as unknown as JobsDb, now)).resolves.toEqual([
+      { job: 'analyticsSnapshots', ok: true, result: { organizations: 0, failed: [] } },
+      { job: 'auditLogRetention', ok: true, result: { cutoff: subDays(now, AUDIT_LOG_RETENTION_DAYS), count: 0 } },
+    ]);
+    expect(db.organization.findMany).toHaveBeenCalledOnce();
+  });
+
+  it('runs every job even when one fails', async () => {
+    const db = createFakeDb();
+    db.organization.findMany.mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(runNightlyJobs(db as unknown as JobsDb)).resolves.toEqual([
+      { job: 'analyticsSnapshots', ok: false, error: 'connection reset' },
+      expect.objectContaining({ job: 'auditLogRetention', ok: true }),
+    ]);
+  });
+});
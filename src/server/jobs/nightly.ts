@@ -0,0 +1,39 @@
+import { type db as prismaClient } from '~/server/db';
+import { purgeExpiredAuditLogs } from '~/server/api/utils/audit';
+import { captureAllOrganizationSnapshots } from '~/server/api/utils/snapshots';
+
+// Nightly jobs.
+//
+// Run once a night by the cron route (src/app/api/cron/nightly/route.ts, scheduled in
+// vercel.json). Each job runs even if an earlier one failed; failures are logged and reported
+// in the result rather than thrown.
+
+export interface NightlyJobResult {
+  job: string;
+  ok: boolean;
+  result?: unknown;
+  error?: string;
+}
+
+// Helper function to run one job, catching its failure
+async function runJob(job: string, run: () => Promise<unknown>): Promise<NightlyJobResult> {
+  try {
+    return { job, ok: true, result: await run() };
+  } catch (error) {
+    console.error('[Nightly Jobs] Job failed:', job, error);
+    return { job, ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+export async function runNightlyJobs(db: typeof prismaClient, now: Date = new Date()): Promise<NightlyJobResult[]> {
+  return [
+    await runJob('analyticsSnapshots', async () => {
+      const results = await captureAllOrganizationSnapshots(db, now);
+      return {
+        organizations: results.length,
+        failed: results.filter(result => result.error).map(result => result.organizationId),
+      };
+    }),
+    await runJob('auditLogRetention', () => purgeExpiredAuditLogs(db, undefined, now)),
+  ];
+}
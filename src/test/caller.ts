@@ -0,0 +1,20 @@
+import { type AnyRouter, type inferRouterContext } from '@trpc/server';
+import { type FakeDb } from './fakeDb';
+
+// Create a server-side caller for a router, signed in as `userId` and backed by a fake db
+export function createTestCaller<TRouter extends AnyRouter>(
+  router: TRouter,
+  db: FakeDb,
+  userId: string
+): ReturnType<TRouter['createCaller']> {
+  const ctx = {
+    db,
+    session: {
+      user: { id: userId },
+      expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+    },
+    headers: new Headers(),
+  } as unknown as inferRouterContext<TRouter>;
+
+  return router.createCaller(ctx) as ReturnType<TRouter['createCaller']>;
+}
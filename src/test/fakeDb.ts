@@ -0,0 +1,130 @@
+import { vi } from 'vitest';
+
+// In-memory stand-in for the Prisma client in router tests.
+//
+// Each model keeps its rows in an array and answers findMany / findFirst / findUnique /
+// count / create / deleteMany by evaluating the Prisma `where` filter against them. Supported filters:
+// equality, `in`, `notIn`, `not`, `lt` / `lte` / `gt` / `gte`, `AND` / `OR` / `NOT`, and
+// to-one relation filters on rows that embed the related record. `select` is ignored, so
+// seed rows with the fields (and embedded relations) the code under test reads.
+// Every method is a `vi.fn`, so tests can assert on the queries that ran.
+
+export type FakeRow = Record<string, unknown>;
+
+export const FAKE_MODELS = [
+  'auditLog',
+  'organization',
+  'property',
+  'propertyBlock',
+  'task',
+  'user',
+  'userOrganization',
+  'userPropertyAccess',
+  'wheelhouseReservation',
+] as const;
+export type FakeModelName = (typeof FAKE_MODELS)[number];
+
+export type FakeDbSeed = Partial<Record<FakeModelName, FakeRow[]>>;
+
+interface FakeQueryArgs {
+  where?: FakeRow;
+}
+
+const COMPARISON_OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte']);
+
+// Helper function to compare scalar values, treating dates by timestamp
+function toComparable(value: unknown): unknown {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+function isFilterObject(value: unknown): value is FakeRow {
+  return value !== null && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value);
+}
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (!isFilterObject(condition)) {
+    return toComparable(value) === toComparable(condition);
+  }
+
+  // A filter without comparison operators is a relation filter on an embedded record
+  if (!Object.keys(condition).some(key => COMPARISON_OPERATORS.has(key))) {
+    return isFilterObject(value) && matchesWhere(value, condition);
+  }
+
+  return Object.entries(condition).every(([operator, operand]) => {
+    const comparable = toComparable(value);
+    switch (operator) {
+      case 'equals':
+        return comparable === toComparable(operand);
+      case 'not':
+        return !matchesCondition(value, operand);
+      case 'in':
+        return (operand as unknown[]).some(option => toComparable(option) === comparable);
+      case 'notIn':
+        return !(operand as unknown[]).some(option => toComparable(option) === comparable);
+      case 'lt':
+        return value != null && (comparable as number) < (toComparable(operand) as number);
+      case 'lte':
+        return value != null && (comparable as number) <= (toComparable(operand) as number);
+      case 'gt':
+        return value != null && (comparable as number) > (toComparable(operand) as number);
+      case 'gte':
+        return value != null && (comparable as number) >= (toComparable(operand) as number);
+      default:
+        throw new Error(`Fake db does not support the "${operator}" filter`);
+    }
+  });
+}
+
+// Evaluate a Prisma `where` filter against a row
+export function matchesWhere(row: FakeRow, where: FakeRow = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'AND') {
+      return [condition].flat().every(clause => matchesWhere(row, clause as FakeRow));
+    }
+    if (key === 'OR') {
+      return (condition as FakeRow[]).some(clause => matchesWhere(row, clause));
+    }
+    if (key === 'NOT') {
+      return ![condition].flat().some(clause => matchesWhere(row, clause as FakeRow));
+    }
+    return matchesCondition(row[key], condition);
+  });
+}
+
+function createFakeModel(rows: FakeRow[]) {
+  const findMatching = (args: FakeQueryArgs = {}) => rows.filter(row => matchesWhere(row, args.where));
+
+  return {
+    findMany: vi.fn(async (args?: FakeQueryArgs) => findMatching(args)),
+    findFirst: vi.fn(async (args?: FakeQueryArgs) => findMatching(args)[0] ?? null),
+    findUnique: vi.fn(async (args?: FakeQueryArgs) => findMatching(args)[0] ?? null),
+    count: vi.fn(async (args?: FakeQueryArgs) => findMatching(args).length),
+    create: vi.fn(async ({ data }: { data: FakeRow }) => {
+      rows.push(data);
+      return data;
+    }),
+    deleteMany: vi.fn(async (args?: FakeQueryArgs) => {
+      const matching = findMatching(args);
+      rows.splice(0, rows.length, ...rows.filter(row => !matching.includes(row)));
+      return { count: matching.length };
+    }),
+  };
+}
+
+export type FakeModel = ReturnType<typeof createFakeModel>;
+export type FakeDb = Record<FakeModelName, FakeModel> & {
+  $queryRaw: ReturnType<typeof vi.fn>;
+};
+
+// Build a fake client seeded with rows per model (models not seeded start empty)
+export function createFakeDb(seed: FakeDbSeed = {}): FakeDb {
+  const models = Object.fromEntries(
+    FAKE_MODELS.map(model => [model, createFakeModel([...(seed[model] ?? [])])])
+  ) as Record<FakeModelName, FakeModel>;
+
+  return {
+    ...models,
+    $queryRaw: vi.fn(async () => []),
+  };
+}